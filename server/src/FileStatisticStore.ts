@@ -0,0 +1,160 @@
+import {promises as fs} from "fs";
+import * as path from "path";
+import {ServerProtocol} from "../../src/api/ServerProtocol";
+import {
+    IRequestSend,
+    IServerApiData,
+    IServerApiRequest,
+    IStatisticStore,
+    IStatisticStoreRecord
+} from "../../src/interfaces";
+
+/**
+ * Статистика доски за год: название доски и {"месяц": {"день": [red, yellow, blue, green]}}
+ */
+interface IStatisticFileBoard {
+    name: string;
+    data: Record<string, Record<string, number[]>>;
+}
+
+/**
+ * Содержимое файла со статистикой рабочего пространства за год: {"ключ доски": IStatisticFileBoard}.
+ * Ключ доски - идентификатор, а для статистики, отправленной без идентификатора, - название доски.
+ * Файлы старого формата {"название доски": {"месяц": {"день": [...]}}} приводятся к этому виду при чтении
+ */
+type TStatisticFile = Record<string, IStatisticFileBoard>;
+
+/**
+ * Хранение статистики в json файлах. На каждое рабочее пространство и год создается отдельный файл:
+ * {dir}/{orgId}/{год}.json
+ */
+export class FileStatisticStore implements IStatisticStore {
+    public dir: string;
+
+    /**
+     * Очередь записи по файлам, чтобы одновременные запросы не затирали изменения друг друга
+     */
+    protected _queue: Record<string, Promise<void>> = {};
+
+    /**
+     * @param dir Каталог, в котором хранятся файлы со статистикой
+     */
+    public constructor(dir: string) {
+        this.dir = dir;
+    }
+
+    public async save(data: IServerApiData): Promise<IRequestSend> {
+        const years: Record<string, IStatisticStoreRecord[]> = {};
+        ServerProtocol.getRecords(data).forEach((record) => {
+            (years[record.year] = years[record.year] || []).push(record);
+        });
+        try {
+            await Promise.all(Object.keys(years).map((year) => {
+                return this._update(data.orgId, year, (content) => {
+                    const board = FileStatisticStore._getBoard(content, ServerProtocol.getBoardKey(data), data.name);
+                    // Статистика за день полностью заменяет ранее сохраненную
+                    years[year].forEach(({month, day, statistic}) => {
+                        board.data[month] = board.data[month] || {};
+                        board.data[month][day] = ServerProtocol.COLORS.map(color => statistic[color] as number);
+                    });
+                });
+            }));
+            return {status: true};
+        } catch (e) {
+            return {status: false, err: e.message};
+        }
+    }
+
+    public async get(year: string, orgId: string): Promise<IServerApiRequest> {
+        try {
+            const content = await this._read(this._getFileName(orgId, year));
+            const records: IStatisticStoreRecord[] = [];
+            for (const boardId of Object.keys(content)) {
+                const {name, data} = content[boardId];
+                for (const month of Object.keys(data)) {
+                    for (const day of Object.keys(data[month])) {
+                        const [red, yellow, blue, green] = data[month][day];
+                        records.push({
+                            orgId,
+                            boardId,
+                            name,
+                            year: Number(year),
+                            month: Number(month),
+                            day: Number(day),
+                            statistic: {red, yellow, blue, green}
+                        });
+                    }
+                }
+            }
+            return {status: true, res: ServerProtocol.aggregate(records)};
+        } catch (e) {
+            return {status: false, msg: e.message};
+        }
+    }
+
+    protected _getFileName(orgId: string, year: string): string {
+        if (!ServerProtocol.isOrgId(orgId) || !/^\d{4}$/.test(year)) {
+            throw new Error('Некорректное рабочее пространство или год');
+        }
+        return path.join(this.dir, encodeURIComponent(orgId), `${year}.json`);
+    }
+
+    /**
+     * Получение статистики доски из файла. Статистика, сохраненная под названием доски до передачи идентификатора,
+     * переносится к идентификатору, чтобы дни не дублировались
+     * @param content
+     * @param boardKey
+     * @param name
+     */
+    protected static _getBoard(content: TStatisticFile, boardKey: string, name: string): IStatisticFileBoard {
+        const board: IStatisticFileBoard = content[boardKey] || {name, data: {}};
+        if (boardKey !== name && content[name]) {
+            const legacy = content[name].data;
+            Object.keys(legacy).forEach((month) => {
+                board.data[month] = {...legacy[month], ...board.data[month]};
+            });
+            delete content[name];
+        }
+        board.name = name;
+        content[boardKey] = board;
+        return board;
+    }
+
+    protected async _read(fileName: string): Promise<TStatisticFile> {
+        try {
+            const content = JSON.parse(await fs.readFile(fileName, 'utf8'));
+            Object.keys(content).forEach((key) => {
+                if (!content[key].data) {
+                    content[key] = {name: key, data: content[key]};
+                }
+            });
+            return content;
+        } catch (e) {
+            if (e.code === 'ENOENT') {
+                return {};
+            }
+            throw e;
+        }
+    }
+
+    /**
+     * Изменение файла со статистикой. Файл записывается во временный файл и затем переименовывается,
+     * поэтому при падении сервера не остается наполовину записанных файлов
+     * @param orgId
+     * @param year
+     * @param cb Функция, изменяющая содержимое файла
+     */
+    protected _update(orgId: string, year: string, cb: (content: TStatisticFile) => void): Promise<void> {
+        const fileName = this._getFileName(orgId, year);
+        const run = async () => {
+            const content = await this._read(fileName);
+            cb(content);
+            await fs.mkdir(path.dirname(fileName), {recursive: true});
+            await fs.writeFile(`${fileName}.tmp`, JSON.stringify(content));
+            await fs.rename(`${fileName}.tmp`, fileName);
+        };
+        const res = (this._queue[fileName] || Promise.resolve()).then(run, run);
+        this._queue[fileName] = res.catch(() => undefined);
+        return res;
+    }
+}
@@ -0,0 +1,109 @@
+import {createServer, IncomingMessage, Server, ServerResponse} from "http";
+import {ServerProtocol} from "../../src/api/ServerProtocol";
+import {IStatisticStore, TServerApiBody} from "../../src/interfaces";
+
+/**
+ * Http сервер статистики, реализующий протокол ServerApi.
+ * Принимает POST запросы с json телом на любой адрес, поэтому в настройках расширения достаточно указать адрес сервера
+ */
+export class StatisticServer {
+    /**
+     * Максимальный размер тела запроса. В байтах.
+     */
+    public static readonly MAX_BODY_SIZE = 1024 * 1024;
+
+    public store: IStatisticStore;
+    /**
+     * Значение заголовка Access-Control-Allow-Origin. Запросы отправляются со страницы trello
+     */
+    public allowOrigin: string;
+
+    public constructor(store: IStatisticStore, allowOrigin: string = 'https://trello.com') {
+        this.store = store;
+        this.allowOrigin = allowOrigin;
+    }
+
+    /**
+     * Запуск сервера
+     * @param port
+     * @param host
+     */
+    public listen(port: number, host?: string): Promise<Server> {
+        const server = createServer((req, res) => {
+            this.handle(req, res).catch((e) => {
+                console.error(e);
+                this._send(res, 500, {status: false, msg: 'Внутренняя ошибка сервера'});
+            });
+        });
+        return new Promise((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, host, () => resolve(server));
+        });
+    }
+
+    /**
+     * Обработка запроса
+     * @param req
+     * @param res
+     */
+    public async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        if (req.method === 'OPTIONS') {
+            this._send(res, 204);
+            return;
+        }
+        if (req.method !== 'POST') {
+            this._send(res, 405, {status: false, msg: 'Поддерживаются только POST запросы'});
+            return;
+        }
+        let body: TServerApiBody;
+        try {
+            body = JSON.parse(await StatisticServer._readBody(req));
+        } catch (e) {
+            this._send(res, 400, {status: false, msg: e.message});
+            return;
+        }
+        const error = ServerProtocol.validate(body);
+        if (error) {
+            this._send(res, 400, {status: false, msg: error});
+            return;
+        }
+        if (body.method === 'save') {
+            const {orgName, orgId, boardId, name, data} = body;
+            const result = await this.store.save({orgName, orgId, boardId, name, data});
+            this._send(res, result.status ? 200 : 500, {status: result.status, msg: result.err});
+        } else {
+            const result = await this.store.get(body.year, body.orgId);
+            this._send(res, result.status ? 200 : 500, result);
+        }
+    }
+
+    protected static _readBody(req: IncomingMessage): Promise<string> {
+        return new Promise((resolve, reject) => {
+            let size = 0;
+            const chunks: Buffer[] = [];
+            req.on('data', (chunk: Buffer) => {
+                size += chunk.length;
+                if (size > StatisticServer.MAX_BODY_SIZE) {
+                    reject(new Error('Слишком большой запрос'));
+                    // Оставшиеся данные пропускаем, чтобы можно было отправить ответ с ошибкой
+                    req.removeAllListeners('data');
+                    req.resume();
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+            req.on('error', reject);
+        });
+    }
+
+    protected _send(res: ServerResponse, status: number, data?: object): void {
+        res.writeHead(status, {
+            'Access-Control-Allow-Origin': this.allowOrigin,
+            'Access-Control-Allow-Methods': 'POST, OPTIONS',
+            'Access-Control-Allow-Headers': 'Content-Type',
+            'Content-Type': 'application/json; charset=utf-8'
+        });
+        res.end(data ? JSON.stringify(data) : undefined);
+    }
+}
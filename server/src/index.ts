@@ -0,0 +1,22 @@
+import * as path from "path";
+import {FileStatisticStore} from "./FileStatisticStore";
+import {StatisticServer} from "./StatisticServer";
+
+/**
+ * Запуск сервера статистики. Настройки задаются переменными окружения:
+ * TREBIS_PORT - порт (по умолчанию 3000),
+ * TREBIS_HOST - адрес, на котором принимаются запросы (по умолчанию 127.0.0.1),
+ * TREBIS_DATA_DIR - каталог с файлами статистики (по умолчанию server/data),
+ * TREBIS_ALLOW_ORIGIN - значение заголовка Access-Control-Allow-Origin (по умолчанию https://trello.com).
+ */
+const port = Number(process.env.TREBIS_PORT) || 3000;
+const host = process.env.TREBIS_HOST || '127.0.0.1';
+const dataDir = process.env.TREBIS_DATA_DIR || path.resolve(__dirname, '../../../data');
+const server = new StatisticServer(new FileStatisticStore(dataDir), process.env.TREBIS_ALLOW_ORIGIN);
+
+server.listen(port, host).then(() => {
+    process.stdout.write(`Сервер статистики запущен: http://${host}:${port}, данные хранятся в ${dataDir}\n`);
+}).catch((e) => {
+    console.error(e.message);
+    process.exit(1);
+});
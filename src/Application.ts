@@ -1,15 +1,45 @@
 import {Trebis} from "./Trebis";
 import {ServerApi} from "./api/ServerApi";
+import {StatisticStore} from "./api/StatisticStore";
+import {StatisticUploader} from "./api/StatisticUploader";
 import {TREBIS as utils} from "./utils";
 import {TrelloUI} from "./TrelloUI";
+import {TrebisRules} from "./TrebisRules";
+import {TrebisCalendar} from "./TrebisCalendar";
+import {TrelloJournal} from "./api/TrelloJournal";
+import {TrebisBackup} from "./TrebisBackup";
+import {RequestScheduler} from "./api/RequestScheduler";
+import {TrebisChart} from "./TrebisChart";
+import {TrebisMetrics} from "./TrebisMetrics";
+import {TrebisExport} from "./TrebisExport";
+import {TrebisStatisticCache} from "./TrebisStatisticCache";
+import {TrebisSettings} from "./TrebisSettings";
+import {TrebisAuth} from "./TrebisAuth";
+import {TrebisAutomation} from "./TrebisAutomation";
+import {TrelloApi} from "./api/TrelloApi";
+import {TrebisDateParser} from "./TrebisDateParser";
 import {
-    ILocalStorage,
+    IDateRange,
     IServerApiRequestRes,
+    IStatisticStoreSettings,
+    ITrebisCarryOverPlan,
+    ITrebisDateCheckResult,
+    ITrebisExportSheet,
+    ITrebisListDatesReport,
+    ITrebisMetrics,
+    ITrebisRetentionPolicy,
+    ITrebisRetentionResult,
+    ITrebisRules,
     ITrebisStatistic,
     ITrebisStatisticText,
+    ITrelloBoard,
     ITrelloListData,
     ITrelloOrg,
-    ITrelloUiCallback
+    ITrelloUiCallback,
+    TExportCell,
+    TDateParserPattern,
+    TPeriodType,
+    TStatisticStoreType
 } from "./interfaces";
 
 /**
@@ -34,47 +64,93 @@ export namespace TREBIS {
         protected readonly STAT_BTN = 'trebis_statistic_btn';
         protected readonly STAT_SERVER_LABEL = 'trebis_get-server-data';
         protected readonly STAT_CONTENT = 'trebis_statistic-content';
+        protected readonly STAT_COMPARE_TYPE = 'trebis_compare-type';
+        protected readonly STAT_COMPARE_COUNT = 'trebis_compare-count';
+        protected readonly STAT_COMPARE_START = 'trebis_compare-start';
+        protected readonly STAT_COMPARE_END = 'trebis_compare-end';
+        protected readonly STAT_COMPARE_BTN = 'trebis_compare_btn';
+        protected readonly STAT_MEMBER = 'trebis_statistic-member';
+        protected readonly STAT_CACHE_REBUILD = 'trebis_statistic-cache-rebuild';
+        protected readonly STORE_TYPE = 'trebis_statistic-store-type';
+        protected readonly STORE_URL = 'trebis_statistic-store-url';
+        protected readonly STORE_BOARD = 'trebis_statistic-store-board';
+        protected readonly SETTINGS_EXPORT = 'trebis_settings-export';
+        protected readonly SETTINGS_IMPORT = 'trebis_settings-import';
+        protected readonly SETTINGS_CACHE_CLEAR = 'trebis_settings-cache-clear';
+
+        protected readonly DEFAULT_CONCURRENCY = 4;
 
         private readonly ADMIN_USERS = ['maxim45387091', 'noname924'];
         protected _trebis: Trebis;
+        protected _statisticCache: TrebisStatisticCache = null;
+        /**
+         * Trello отклонил запрос из-за токена.
+         * Пока пользователь не авторизуется повторно, окно авторизации повторно не открывается
+         */
+        protected _isUnauthorized: boolean = false;
 
         public constructor() {
             this._trebisInit();
+            TrelloApi.onUnauthorized = this._unauthorizedHandler.bind(this);
+            TrebisAuth.onChange(async (auth) => {
+                if (TrebisAuth.isValid(auth) && await this._trebisInit()) {
+                    TrelloUI.successNotification('Авторизация в trello выполнена');
+                }
+            });
+            TrebisAutomation.syncStorage();
         }
 
-        protected _trebisInit(): boolean {
+        protected async _trebisInit(): Promise<boolean> {
             const trelloToken = this._getCookie('token');
             if (trelloToken) {
                 this._trebis = new Trebis();
                 this._trebis.trello.isSendForApi = false;
                 this._trebis.trello.trelloToken = trelloToken;
+                this._trebis.statisticCache = this._getStatisticCache();
+                this._isUnauthorized = false;
                 return true;
             }
 
-            const localStorage: ILocalStorage = this._getLocalStorage();
-            if (localStorage) {
-                this._trebis = new Trebis();
-                const key = localStorage.key;
-                const token = localStorage.token;
-                this._trebis.initKeyToken(key, token);
+            const auth = await TrebisAuth.getAuth();
+            if (TrebisAuth.isValid(auth)) {
+                this._trebis = new Trebis(auth.key, auth.token);
+                this._trebis.statisticCache = this._getStatisticCache();
+                this._isUnauthorized = false;
                 return true;
             }
-            this._trebis = null;
             return false;
         }
 
-        protected _getLocalStorage(): ILocalStorage {
-            const key = utils.getLocalStorage('key');
-            const token = utils.getLocalStorage('token');
-            if (key && token) {
-                return {key, token};
+        /**
+         * Trello отклонил запрос с кодом 401. Если использовался токен api, то он удаляется и пользователю предлагается
+         * авторизоваться повторно. Экземпляр Trebis остается, так как его могут использовать выполняющиеся действия:
+         * они проверяют _isUnauthorized и завершаются. Следующее действие заново получит авторизацию
+         * @param api
+         */
+        protected async _unauthorizedHandler(api: TrelloApi): Promise<void> {
+            // Одновременно может завершиться несколько запросов, поэтому обрабатываем только первый
+            if (this._isUnauthorized) {
+                return;
+            }
+            this._isUnauthorized = true;
+            if (api.isSendForApi) {
+                api.token = null;
+                await TrebisAuth.resetToken();
+                TrelloUI.errorNotification('Токен trello истек или был отозван. Авторизуйтесь повторно');
+                await this.openSettingModal();
+            } else {
+                TrelloUI.errorNotification('Trello отклонил запрос. Обновите страницу или авторизуйтесь через настройки trebis');
             }
-            return null;
         }
 
-        protected _setLocalStorage(storage: ILocalStorage): void {
-            utils.setLocalStorage('key', storage.key);
-            utils.setLocalStorage('token', storage.token);
+        /**
+         * Получение кэша статистики. Если IndexedDB недоступен, то статистика не кэшируется
+         */
+        protected _getStatisticCache(): TrebisStatisticCache {
+            if (!this._statisticCache && TrebisStatisticCache.isSupported()) {
+                this._statisticCache = new TrebisStatisticCache();
+            }
+            return this._statisticCache;
         }
 
         protected _getCookie(name: string): string {
@@ -82,6 +158,28 @@ export namespace TREBIS {
             return matches ? decodeURIComponent(matches[1]) : undefined;
         }
 
+        protected _getCalendar(): TrebisCalendar {
+            return this._trebis ? this._trebis.calendar : TrebisCalendar.getCalendar();
+        }
+
+        /**
+         * Заголовок периода с количеством рабочих дней
+         * @param dateStart
+         * @param dateEnd
+         */
+        protected _getPeriodTitle(dateStart: string, dateEnd: string): string {
+            const count = this._getCalendar().getWorkingDaysCount(utils.getDate(dateStart), utils.getDate(dateEnd));
+            return `Информация с ${dateStart} по ${dateEnd} (рабочих дней: ${count})`;
+        }
+
+        /**
+         * Получение названия текущей доски
+         */
+        protected _getBoardName(): string {
+            const boardName: HTMLInputElement = document.querySelector('.board-name-input');
+            return boardName?.value || null;
+        }
+
         protected async _getBoardId(): Promise<string> {
             return await this._trebis.getBoardId(document.location.pathname);
         }
@@ -97,8 +195,8 @@ export namespace TREBIS {
                     e.preventDefault();
                     await this._getBoardId();
                     const listName: HTMLInputElement = document.querySelector(`.${TrelloUI.INPUT_LIST_NAME}`);
-                    const name = listName.value || utils.date();
-                    this._trebis.createList(name).then(res => {
+                    const name = listName.value || this._trebis.getListName();
+                    this._runWithJournal(`Создание списка ${name}`, () => this._trebis.createList(name)).then(res => {
                         if (res) {
                             TrelloUI.successNotification(`Список ${name} создан`);
                         } else {
@@ -106,13 +204,14 @@ export namespace TREBIS {
                         }
                     });
                 };
-                TrelloUI.openCreateListDialog(utils.date(), addCallback.bind(this));
+                TrelloUI.openCreateListDialog(this._trebis.getListName(), addCallback.bind(this));
             };
             this._getTrebisQuery(callback);
         }
 
         /**
-         * Запуск обработчика, который создает список и копирует карточки
+         * Запуск обработчика, который создает список и копирует карточки.
+         * Перед переносом показывается план переноса, в котором можно выбрать нужные карточки
          * @param e
          */
         public runScriptHandler(e: Event): void {
@@ -120,25 +219,141 @@ export namespace TREBIS {
             const callback = async () => {
                 TrelloUI.showIndicator();
                 await this._getBoardId();
-                // Добавляем список если его нет
                 const lists: ITrelloListData[] = await this._trebis.getLists();
-                const name = utils.date();
-                const thisListId = await this._trebis.getListId(lists, name);
-                if (thisListId === null) {
-                    await this._trebis.createList();
+                if (!lists || this._isUnauthorized) {
+                    TrelloUI.hideIndicator();
+                    return;
+                }
+                await this._trebis.initLabels();
+                const plan = await this._trebis.getCarryOverPlan(lists);
+                TrelloUI.hideIndicator();
+                if (plan) {
+                    this._openCarryOverPreview(plan);
                 } else {
-                    this._trebis.thisListId = thisListId;
+                    await this._createListWithoutPlan();
                 }
+            };
+            this._getTrebisQuery(callback);
+        }
 
-                if (this._trebis.thisListId && this._trebis.thisListId.id) {
-                    await this._trebis.initLabels();
-                    // Обновляем карточки
-                    const count = await this._trebis.updateCard(lists);
-                    if (count !== null) {
-                        TrelloUI.successNotification(`Список ${name} создан. Перенесено ${count} карточек`);
+        /**
+         * Создание списка на текущий день, если список за предыдущий рабочий день не найден и переносить нечего
+         */
+        protected async _createListWithoutPlan(): Promise<void> {
+            const name = this._trebis.getListName();
+            const message = 'Не найден список за предыдущий рабочий день, карточки не перенесены.';
+            if (this._trebis.thisListId) {
+                TrelloUI.successNotification(`${message} Список ${name} уже есть`);
+                return;
+            }
+            if (await this._runWithJournal(`Создание списка ${name}`, () => this._trebis.createList(name))) {
+                TrelloUI.successNotification(`${message} Список ${name} создан`);
+            } else {
+                TrelloUI.errorNotification(`Не удалось создать список ${name}`);
+            }
+        }
+
+        /**
+         * Отображение плана переноса карточек.
+         * В trello отправляются только отмеченные пользователем операции
+         * @param plan
+         */
+        protected _openCarryOverPreview(plan: ITrebisCarryOverPlan): void {
+            const formName = 'trebis_carry-over';
+            const operationName = 'trebis_carry-over-operation';
+            const cancelName = 'trebis_carry-over-cancel';
+            const actions = {
+                copy: 'Перенос',
+                update: 'Обновление',
+                skip: 'Пропуск'
+            };
+            let content = '<div class="window-main-col" style="margin:12px 40px 8px 56px;width:calc(100% - 100px)">' +
+                `<p>Перенос карточек из списка <b>${utils.escapeHtml(plan.lastListName)}</b> в список <b>${plan.listName}</b>` +
+                `${plan.thisListId ? '' : ' (список будет создан)'}</p>` +
+                `<form action="#" class="${formName}"><table style="width:100%">`;
+            plan.operations.forEach((operation) => {
+                const cardName = utils.escapeHtml(operation.card.name);
+                content += '<tr><td>' + (operation.type === 'skip' ? '' :
+                        `<input type="checkbox" name="${operationName}" value="${operation.id}" checked>`) +
+                    `</td><td>${operation.card.shortUrl ?
+                        `<a href="${operation.card.shortUrl}" target="_blank">${cardName}</a>` : cardName}</td>` +
+                    `<td>${actions[operation.type]}</td><td>${utils.escapeHtml(operation.reason)}</td></tr>`;
+            });
+            if (!plan.operations.length) {
+                content += '<tr><td>В списке нет карточек</td></tr>';
+            }
+            content += '</table>' + TrelloUI.getButton('Перенести') +
+                TrelloUI.getButton('Отмена', cancelName, 'margin-left:10px') + '</form></div>';
+            TrelloUI.openModal(content, 'Перенос карточек');
+
+            const cancelBtn: HTMLElement = document.querySelector(`.${cancelName}`);
+            cancelBtn.onclick = (e) => {
+                e.preventDefault();
+                TrelloUI.closeModal();
+            };
+            const tForm: HTMLFormElement = document.querySelector(`.${formName}`);
+            tForm.onsubmit = async (e) => {
+                e.preventDefault();
+                const operationIds: string[] = [];
+                const inputs: NodeListOf<HTMLInputElement> = document.querySelectorAll(`input[name="${operationName}"]`);
+                inputs.forEach((input) => {
+                    if (input.checked) {
+                        operationIds.push(input.value);
                     }
+                });
+                TrelloUI.closeModal();
+                TrelloUI.showIndicator();
+                const count = await this._runWithJournal('Перенос карточек', () => {
+                    return this._trebis.applyCarryOverPlan(plan, operationIds);
+                });
+                if (count !== null) {
+                    TrelloUI.successNotification(`${plan.thisListId ? '' : `Список ${plan.listName} создан. `}` +
+                        `Перенесено ${count} карточек`);
                 } else {
-                    TrelloUI.errorNotification(`Не удалось создать список ${name}`);
+                    TrelloUI.errorNotification(`Не удалось создать список ${plan.listName}`);
+                }
+                TrelloUI.hideIndicator();
+            };
+        }
+
+        /**
+         * Выполнение действия пользователя с записью всех изменений в журнал
+         * @param name Название действия
+         * @param callback
+         */
+        protected async _runWithJournal<T>(name: string, callback: () => Promise<T>): Promise<T> {
+            const journal = this._trebis.trello.journal;
+            journal.begin(name, this._trebis.boardId);
+            try {
+                return await callback();
+            } finally {
+                journal.end();
+            }
+        }
+
+        /**
+         * Запуск обработчика для отмены последнего действия
+         * @param e
+         */
+        public undoHandler(e: Event): void {
+            e.preventDefault();
+            const callback = async () => {
+                const boardId = await this._getBoardId();
+                const run = TrelloJournal.getLastRun(boardId);
+                if (!run) {
+                    TrelloUI.errorNotification('Нет действий для отмены на этой доске');
+                    return;
+                }
+                if (!confirm(`Отменить действие "${run.name}" от ${utils.date(run.date)}? ` +
+                    `Будет отменено операций: ${run.operations.length}`)) {
+                    return;
+                }
+                TrelloUI.showIndicator();
+                const errors = await this._trebis.trello.journal.undoLast(this._trebis.trello, boardId);
+                if (errors) {
+                    TrelloUI.errorNotification(`Не удалось отменить операций: ${errors}. Отмену можно повторить`);
+                } else {
+                    TrelloUI.successNotification(`Действие "${run.name}" отменено`);
                 }
                 TrelloUI.hideIndicator();
             };
@@ -154,24 +369,424 @@ export namespace TREBIS {
             this.openSettingModal();
         }
 
+        /**
+         * Нажата кнопка настроек доски.
+         * @param e
+         */
+        public boardSettingHandler(e: Event) {
+            e.preventDefault();
+            this._getTrebisQuery(async () => {
+                await this._getBoardId();
+                await this.openBoardSettingModal();
+            });
+        }
+
+        /**
+         * Открытие настроек текущей доски
+         */
+        public async openBoardSettingModal(): Promise<void> {
+            const formName = 'trebis_board-setting';
+            const presetName = 'trebis_rules-preset';
+            const fields: Record<keyof ITrebisRules, string> = {
+                done: 'Задача выполнена, если есть метки',
+                carry: 'Переносить метки (* - все метки)',
+                strip: 'Не переносить метки',
+                addToCopy: 'Добавлять метки в новую карточку',
+                addToSource: 'Добавлять метки в исходную карточку'
+            };
+            const rules = TrebisRules.getBoardRules(this._trebis.boardId).rules;
+            const calendarName = 'trebis_open-calendar';
+            const checkName = 'trebis_check-board';
+            const patternName = 'trebis_date-pattern';
+            const chronicDaysName = 'trebis_chronic-days';
+            const restoreName = 'trebis_backup-restore';
+            const patterns = this._trebis.getDateParser().patterns;
+            const automationName = 'trebis_automation';
+            const automationTimeName = 'trebis_automation-time';
+            const automation = TrebisAutomation.isSupported() ? await TrebisAutomation.getSettings() : null;
+            let content = '<div class="window-main-col" style="margin:12px 40px 8px 56px;">' +
+                `<a href="#" id="${calendarName}">Рабочий календарь</a> | <a href="#" id="${checkName}">Проверить доску</a>` +
+                `<form action="#" class="${formName}"><h3>Правила переноса карточек</h3>` +
+                '<p>Метки указываются через запятую, цветом (green, red...) или названием метки.</p>' +
+                `<div><label for="${presetName}">Набор правил</label><select id="${presetName}" style="width:100%">` +
+                '<option value="">Свои правила</option>';
+            for (const preset in TrebisRules.PRESETS) {
+                if (TrebisRules.PRESETS.hasOwnProperty(preset)) {
+                    content += `<option value="${preset}">${TrebisRules.PRESETS[preset].title}</option>`;
+                }
+            }
+            content += '</select></div>';
+            for (const field in fields) {
+                if (fields.hasOwnProperty(field)) {
+                    const value = utils.escapeHtml(rules[field].join(', '));
+                    content += `<div><label for="trebis_rules-${field}">${fields[field]}</label>` +
+                        `<input type="text" id="trebis_rules-${field}" style="width:100%" value="${value}"></div>`;
+                }
+            }
+            content += '<h3>Форматы дат в названиях списков</h3><p>';
+            (Object.keys(TrebisDateParser.PATTERNS) as TDateParserPattern[]).forEach((pattern) => {
+                content += `<label style="margin-right:10px"><input type="checkbox" name="${patternName}" value="${pattern}"` +
+                    ` ${patterns.includes(pattern) ? 'checked' : ''}>${TrebisDateParser.PATTERNS[pattern]}</label>`;
+            });
+            content += '</p><h3>Статистика</h3>' +
+                `<div><label for="${chronicDaysName}">Задача хроническая, если переносится больше указанного количества дней подряд` +
+                `</label><input type="number" id="${chronicDaysName}" min="1" style="width:100%" ` +
+                `value="${TrebisMetrics.getBoardChronicDays(this._trebis.boardId)}"></div>`;
+            if (automation) {
+                const isAutomation = automation.boards.some(board => board.id === this._trebis.boardId);
+                content += '<h3>Автоматический перенос карточек</h3>' +
+                    `<p><label><input type="checkbox" id="${automationName}" ${isAutomation ? 'checked' : ''}>` +
+                    'Переносить карточки этой доски в рабочие дни, даже если trello не открыт</label></p>' +
+                    `<div><label for="${automationTimeName}">Время переноса (общее для всех досок)</label>` +
+                    `<input type="time" id="${automationTimeName}" value="${automation.time}" style="width:100%"></div>`;
+            }
+            content += TrelloUI.getButton('Сохранить') + '</form>' +
+                `<h3>Резервная копия</h3><label for="${restoreName}">Восстановить списки из резервной копии (json)</label>` +
+                `<input type="file" id="${restoreName}" accept=".json" style="width:100%"></div>`;
+            TrelloUI.openModal(content, 'Настройки доски');
+
+            const restoreInput: HTMLInputElement = document.getElementById(restoreName) as HTMLInputElement;
+            restoreInput.onchange = async () => {
+                const file = restoreInput.files[0];
+                if (file) {
+                    TrelloUI.closeModal();
+                    await this._restoreBackup(await file.text());
+                }
+            };
+
+            document.getElementById(calendarName).onclick = (e) => {
+                e.preventDefault();
+                TrelloUI.closeModal();
+                this.openCalendarModal();
+            };
+            document.getElementById(checkName).onclick = async (e) => {
+                e.preventDefault();
+                TrelloUI.closeModal();
+                TrelloUI.showIndicator();
+                const lists: ITrelloListData[] = await this._trebis.trello.getLists(this._trebis.boardId);
+                TrelloUI.hideIndicator();
+                if (lists) {
+                    this._openBoardCheckModal(this._trebis.getDateParser().check(lists));
+                } else {
+                    TrelloUI.errorNotification('Не удалось получить списки доски');
+                }
+            };
+            const getInput = (field: string): HTMLInputElement => {
+                return document.getElementById(`trebis_rules-${field}`) as HTMLInputElement;
+            };
+            const preset: HTMLSelectElement = document.getElementById(presetName) as HTMLSelectElement;
+            preset.onchange = () => {
+                if (TrebisRules.PRESETS[preset.value]) {
+                    const presetRules = TrebisRules.PRESETS[preset.value].rules;
+                    for (const field in fields) {
+                        if (fields.hasOwnProperty(field)) {
+                            getInput(field).value = presetRules[field].join(', ');
+                        }
+                    }
+                }
+            };
+            const tForm: HTMLFormElement = document.querySelector(`.${formName}`);
+            tForm.onsubmit = async (e) => {
+                e.preventDefault();
+                const patternInputs: NodeListOf<HTMLInputElement> = document.querySelectorAll(`input[name="${patternName}"]`);
+                const newPatterns: TDateParserPattern[] = [];
+                patternInputs.forEach((input) => {
+                    if (input.checked) {
+                        newPatterns.push(input.value as TDateParserPattern);
+                    }
+                });
+                if (!newPatterns.length) {
+                    TrelloUI.errorNotification('Выберите хотя бы один формат даты в названиях списков');
+                    return;
+                }
+                const newRules = {} as ITrebisRules;
+                for (const field in fields) {
+                    if (fields.hasOwnProperty(field)) {
+                        newRules[field] = getInput(field).value.split(',')
+                            .map(value => value.trim())
+                            .filter(value => value);
+                    }
+                }
+                TrebisRules.saveBoardRules(this._trebis.boardId, newRules);
+                TrebisDateParser.saveBoardPatterns(this._trebis.boardId, newPatterns);
+                const chronicDays = Number((document.getElementById(chronicDaysName) as HTMLInputElement).value);
+                if (Number.isInteger(chronicDays) && chronicDays > 0) {
+                    TrebisMetrics.saveBoardChronicDays(this._trebis.boardId, chronicDays);
+                }
+                if (automation) {
+                    const board = {id: this._trebis.boardId, name: this._getBoardName() || this._trebis.boardId};
+                    const isAutomation = (document.getElementById(automationName) as HTMLInputElement).checked;
+                    await TrebisAutomation.saveBoard(board, isAutomation,
+                        (document.getElementById(automationTimeName) as HTMLInputElement).value);
+                    await TrebisAutomation.syncStorage();
+                }
+                TrelloUI.successNotification('Настройки доски сохранены');
+                TrelloUI.closeModal();
+            };
+        }
+
+        /**
+         * Отображение результата проверки названий списков доски
+         * @param result
+         */
+        protected _openBoardCheckModal(result: ITrebisDateCheckResult): void {
+            const getName = (list: ITrelloListData) => `<b>${utils.escapeHtml(list.name)}</b>`;
+            const getSection = this._getListItemsTemplate.bind(this);
+            let content = getSection('Не удалось определить дату',
+                    result.unparsed.map(item => `${getName(item.list)} - ${TrebisDateParser.ERRORS[item.reason]}`)) +
+                getSection('Списки не по порядку', result.outOfOrder.map((item) => {
+                    return `${getName(item.list)} (${utils.date(item.date.getTime(), true)}) расположен после ${getName(item.previous)}`;
+                })) +
+                getSection('Списки с одинаковой датой',
+                    result.duplicates.map(item => `${getName(item.list)} (${utils.date(item.date.getTime(), true)})`)) +
+                getSection('Предупреждения', result.warnings.map(item => `${getName(item.list)} - ${item.warning}`));
+            if (!content) {
+                content = '<p>Названия всех списков распознаны, списки идут по порядку.</p>';
+            }
+            TrelloUI.openModal(`<div class="window-main-col" style="margin:12px 40px 8px 56px;">${content}</div>`,
+                'Проверка доски');
+        }
+
+        /**
+         * Открытие настроек рабочего календаря
+         */
+        public openCalendarModal(): void {
+            const calendar = TrebisCalendar.getCalendar();
+            const formName = 'trebis_calendar';
+            const weekDayName = 'trebis_calendar-week-day';
+            const holidaysName = 'trebis_calendar-holidays';
+            const workDaysName = 'trebis_calendar-work-days';
+            const daysOffName = 'trebis_calendar-days-off';
+            const importName = 'trebis_calendar-import';
+            const weekDays = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
+            const textareaStyle = 'width:100%;min-height:60px';
+
+            let content = '<div class="window-main-col" style="margin:12px 40px 8px 56px;">' +
+                `<form action="#" class="${formName}"><p>Рабочие дни недели:</p><p>`;
+            weekDays.forEach((dayName, index) => {
+                const day = (index + 1) % 7;
+                content += `<label style="margin-right:10px"><input type="checkbox" name="${weekDayName}" value="${day}"` +
+                    ` ${calendar.calendar.weekDays.includes(day) ? 'checked' : ''}>${dayName}</label>`;
+            });
+            content += '</p><p>Даты указываются в формате d.m.Y через запятую. Для диапазона используется d.m.Y-d.m.Y</p>' +
+                `<div><label for="${importName}">Импорт праздников (производственный календарь в формате json или ics)</label>` +
+                `<input type="file" id="${importName}" accept=".json,.ics" style="width:100%"></div>` +
+                `<div><label for="${holidaysName}">Праздничные дни</label>` +
+                `<textarea id="${holidaysName}" style="${textareaStyle}">${TrebisCalendar.formatDays(calendar.calendar.holidays)}</textarea></div>` +
+                `<div><label for="${workDaysName}">Рабочие выходные</label>` +
+                `<textarea id="${workDaysName}" style="${textareaStyle}">${TrebisCalendar.formatDays(calendar.calendar.workDays)}</textarea></div>` +
+                `<div><label for="${daysOffName}">Личные выходные и отпуск</label>` +
+                `<textarea id="${daysOffName}" style="${textareaStyle}">${TrebisCalendar.formatDays(calendar.calendar.daysOff)}</textarea></div>` +
+                TrelloUI.getButton('Сохранить') + '</form></div>';
+            TrelloUI.openModal(content, 'Рабочий календарь');
+
+            const getTextarea = (id: string): HTMLTextAreaElement => {
+                return document.getElementById(id) as HTMLTextAreaElement;
+            };
+            const tForm: HTMLFormElement = document.querySelector(`.${formName}`);
+            const importInput: HTMLInputElement = document.getElementById(importName) as HTMLInputElement;
+            importInput.onchange = async () => {
+                const file = importInput.files[0];
+                if (file) {
+                    try {
+                        calendar.calendar.holidays = TrebisCalendar.parseDays(getTextarea(holidaysName).value);
+                        calendar.calendar.workDays = TrebisCalendar.parseDays(getTextarea(workDaysName).value);
+                        const count = calendar.importHolidays(await file.text());
+                        getTextarea(holidaysName).value = TrebisCalendar.formatDays(calendar.calendar.holidays);
+                        getTextarea(workDaysName).value = TrebisCalendar.formatDays(calendar.calendar.workDays);
+                        TrelloUI.successNotification(`Добавлено ${count} праздничных дней`);
+                    } catch (e) {
+                        TrelloUI.errorNotification('Не удалось прочитать файл календаря');
+                    }
+                }
+            };
+            tForm.onsubmit = (e) => {
+                e.preventDefault();
+                const weekDayInputs: NodeListOf<HTMLInputElement> = document.querySelectorAll(`input[name="${weekDayName}"]`);
+                const newCalendar = {
+                    weekDays: [],
+                    holidays: TrebisCalendar.parseDays(getTextarea(holidaysName).value),
+                    workDays: TrebisCalendar.parseDays(getTextarea(workDaysName).value),
+                    daysOff: TrebisCalendar.parseDays(getTextarea(daysOffName).value)
+                };
+                weekDayInputs.forEach((input) => {
+                    if (input.checked) {
+                        newCalendar.weekDays.push(Number(input.value));
+                    }
+                });
+                TrebisCalendar.saveCalendar(newCalendar);
+                TrebisAutomation.syncStorage();
+                if (this._trebis) {
+                    this._trebis.calendar = new TrebisCalendar(newCalendar);
+                }
+                TrelloUI.successNotification('Календарь сохранен');
+                TrelloUI.closeModal();
+            };
+        }
+
         /**
          * Запуск обработчика для удаления старых списков
          * @param e
          */
         public removeHandler(e: Event) {
             e.preventDefault();
+            const callback = async () => {
+                TrelloUI.showIndicator();
+                await this._getBoardId();
+                const lists: ITrelloListData[] = await this._trebis.trello.getLists(this._trebis.boardId);
+                TrelloUI.hideIndicator();
+                if (lists) {
+                    this._openRemoveModal(lists);
+                } else {
+                    TrelloUI.errorNotification('Не удалось получить списки доски');
+                }
+            };
+            this._getTrebisQuery(callback);
+        }
 
-            if (confirm('Уверены что хотите удалить старые списки? Останутся первые 30')) {
-                if (confirm('На все 100% уверены?')) {
-                    const callback = async () => {
-                        await this._getBoardId();
-                        let lists: ITrelloListData[] = await this._trebis.trello.getLists(this._trebis.boardId);
-                        const count = await this._trebis.removeOldLists(lists);
-                        TrelloUI.successNotification(`Удалено ${count} списков`);
-                        lists = null;
-                    };
-                    this._getTrebisQuery(callback)
+        /**
+         * Отображение политики хранения списков и списков, которые будут скрыты
+         * @param lists
+         */
+        protected _openRemoveModal(lists: ITrelloListData[]): void {
+            const formName = 'trebis_retention';
+            const typeName = 'trebis_retention-type';
+            const daysName = 'trebis_retention-days';
+            const dateName = 'trebis_retention-date';
+            const unparsedName = 'trebis_retention-unparsed';
+            const previewName = 'trebis_retention-preview';
+            const backupName = 'trebis_retention-backup';
+            const backupFormatName = 'trebis_retention-backup-format';
+            const policy = Trebis.getRetentionPolicy(this._trebis.boardId);
+            const inputDate = policy.date ? utils.revertDate(policy.date) : '';
+
+            const content = '<div class="window-main-col" style="margin:12px 40px 8px 56px;width:calc(100% - 100px)">' +
+                `<form action="#" class="${formName}">` +
+                `<p><label><input type="radio" name="${typeName}" value="days" ${policy.type === 'days' ? 'checked' : ''}>` +
+                `Хранить списки за последние <input type="number" min="0" id="${daysName}" value="${policy.days || 0}" style="width:80px"> дней</label></p>` +
+                `<p><label><input type="radio" name="${typeName}" value="date" ${policy.type === 'date' ? 'checked' : ''}>` +
+                `Хранить списки начиная с <input type="date" id="${dateName}" value="${inputDate}"></label></p>` +
+                `<p><label for="${unparsedName}">Списки, название которых не является датой</label>` +
+                `<select id="${unparsedName}" style="width:100%">` +
+                `<option value="keep" ${policy.unparsed === 'keep' ? 'selected' : ''}>Оставить</option>` +
+                `<option value="archive" ${policy.unparsed === 'archive' ? 'selected' : ''}>Скрыть</option></select></p>` +
+                `<p><label><input type="checkbox" id="${backupName}" checked>Сохранить резервную копию списков перед удалением</label>` +
+                `<select id="${backupFormatName}" style="margin-left:10px">` +
+                '<option value="json">JSON</option><option value="md">Markdown</option></select></p>' +
+                `<div class="${previewName}"></div>` +
+                TrelloUI.getButton('Скрыть списки') + '</form></div>';
+            TrelloUI.openModal(content, 'Удаление старых списков');
+
+            const tForm: HTMLFormElement = document.querySelector(`.${formName}`);
+            const preview: HTMLElement = document.querySelector(`.${previewName}`);
+            const getPolicy = (): ITrebisRetentionPolicy => {
+                const dateValue = (document.getElementById(dateName) as HTMLInputElement).value;
+                return {
+                    type: tForm.elements[typeName]?.value === 'date' ? 'date' : 'days',
+                    days: Number((document.getElementById(daysName) as HTMLInputElement).value),
+                    date: dateValue ? utils.revertDate(dateValue, false) : null,
+                    unparsed: (document.getElementById(unparsedName) as HTMLSelectElement).value === 'archive' ? 'archive' : 'keep'
+                };
+            };
+            let result: ITrebisRetentionResult = null;
+            const updatePreview = () => {
+                result = this._trebis.getListsForRemove(lists, getPolicy());
+                let previewHtml = `<p>Будет скрыто списков: ${result.archive.length}, останется: ${result.keep.length}</p>`;
+                if (result.archive.length) {
+                    previewHtml += '<ul style="max-height:200px;overflow:auto">' +
+                        result.archive.map(list => `<li>${utils.escapeHtml(list.name)}</li>`).join('') + '</ul>';
+                }
+                if (result.unparsed.length) {
+                    previewHtml += '<p>Не удалось распознать дату: ' +
+                        result.unparsed.map(list => utils.escapeHtml(list.name)).join(', ') + '</p>';
                 }
+                preview.innerHTML = previewHtml;
+            };
+            tForm.onchange = updatePreview;
+            tForm.oninput = updatePreview;
+            updatePreview();
+
+            tForm.onsubmit = async (e) => {
+                e.preventDefault();
+                if (!result.archive.length) {
+                    TrelloUI.errorNotification('Нет списков для удаления');
+                    return;
+                }
+                if (confirm(`Уверены что хотите скрыть ${result.archive.length} списков?`)) {
+                    Trebis.saveRetentionPolicy(this._trebis.boardId, getPolicy());
+                    TrelloUI.showIndicator();
+                    const archive = result.archive;
+                    if ((document.getElementById(backupName) as HTMLInputElement).checked) {
+                        const format = (document.getElementById(backupFormatName) as HTMLSelectElement).value;
+                        const isSaved = await this._saveBackup(archive, format);
+                        if (!isSaved) {
+                            TrelloUI.hideIndicator();
+                            TrelloUI.errorNotification('Не удалось создать резервную копию. Списки не скрыты');
+                            return;
+                        }
+                    }
+                    const removeResult = await this._runWithJournal('Удаление старых списков', () => {
+                        return this._trebis.removeOldLists(archive);
+                    });
+                    TrelloUI.hideIndicator();
+                    let report = `<p>Скрыто списков: ${removeResult.count}</p>`;
+                    if (removeResult.errors.length) {
+                        report += '<p style="color:red">Не удалось скрыть списки: ' +
+                            removeResult.errors.map(list => utils.escapeHtml(list.name)).join(', ') + '</p>';
+                        TrelloUI.errorNotification(`Не удалось скрыть ${removeResult.errors.length} списков`);
+                    } else {
+                        TrelloUI.successNotification(`Удалено ${removeResult.count} списков`);
+                    }
+                    preview.innerHTML = report;
+                }
+            };
+        }
+
+        /**
+         * Создание и скачивание резервной копии списков
+         * @param lists
+         * @param format Формат файла: json или md
+         */
+        protected async _saveBackup(lists: ITrelloListData[], format: string): Promise<boolean> {
+            const trebisBackup = new TrebisBackup(this._trebis.trello);
+            const backup = await trebisBackup.create(this._trebis.boardId, this._getBoardName(), lists);
+            if (!backup) {
+                return false;
+            }
+            const fileName = `trebis_backup_${utils.date(backup.date, true)}`;
+            if (format === 'md') {
+                TrelloUI.downloadAsFile(`${fileName}.md`, TrebisBackup.toMarkdown(backup), {type: 'text/markdown'});
+            } else {
+                TrelloUI.downloadAsFile(`${fileName}.json`, TrebisBackup.toJson(backup));
+            }
+            return true;
+        }
+
+        /**
+         * Восстановление списков из резервной копии
+         * @param content Содержимое файла резервной копии
+         */
+        protected async _restoreBackup(content: string): Promise<void> {
+            const backup = TrebisBackup.parse(content);
+            if (!backup) {
+                TrelloUI.errorNotification('Файл не является резервной копией');
+                return;
+            }
+            if (!confirm(`Восстановить ${backup.lists.length} списков из резервной копии от ${utils.date(backup.date)}?`)) {
+                return;
+            }
+            TrelloUI.showIndicator();
+            await this._trebis.initLabels();
+            const trebisBackup = new TrebisBackup(this._trebis.trello);
+            const res = await this._runWithJournal('Восстановление из резервной копии', () => {
+                return trebisBackup.restore(backup, this._trebis.boardId, this._trebis.getLabels());
+            });
+            TrelloUI.hideIndicator();
+            const message = `Восстановлено списков: ${res.lists}, карточек: ${res.cards}`;
+            if (res.errors) {
+                TrelloUI.errorNotification(`${message}. Не удалось восстановить элементов: ${res.errors}`);
+            } else {
+                TrelloUI.successNotification(message);
             }
         }
 
@@ -184,6 +799,34 @@ export namespace TREBIS {
             event.preventDefault();
             TrelloUI.openModal(this._getStatisticContentTemplate(isFull), `Получение${isFull ? ' общей' : ''} статистики`);
             this._getStatistic(isFull);
+            this._initMemberFilter();
+        }
+
+        /**
+         * Заполнение фильтра по участникам рабочего пространства
+         */
+        protected async _initMemberFilter(): Promise<void> {
+            if (!this._trebis) {
+                return;
+            }
+            const memberNames = await this._trebis.getMemberNames();
+            const memberSelect = document.getElementById(this.STAT_MEMBER) as HTMLSelectElement;
+            if (memberSelect) {
+                Object.values(memberNames).sort().forEach((username) => {
+                    const option = document.createElement('option');
+                    option.value = username;
+                    option.innerText = username;
+                    memberSelect.append(option);
+                });
+            }
+        }
+
+        /**
+         * Получение выбранного в фильтре участника. Если участник не выбран, то null
+         */
+        protected _getSelectedMember(): string {
+            const memberSelect = document.getElementById(this.STAT_MEMBER) as HTMLSelectElement;
+            return memberSelect?.value || null;
         }
 
         /**
@@ -198,7 +841,7 @@ export namespace TREBIS {
                     e.preventDefault();
                     if (e.target) {
                         const statisticContent: HTMLElement = document.querySelector(`.${this.STAT_CONTENT}`);
-                        statisticContent.innerHTML = await this._getStatisticFromServer((e.target as HTMLElement).innerText);
+                        await this._getStatisticFromServer(statisticContent, (e.target as HTMLElement).innerText);
                     }
                 }
             }
@@ -208,43 +851,30 @@ export namespace TREBIS {
             const isTrebisToken = !!this._getCookie('token');
             // Если не удалось получить токен, то предлагаем авторизоваться вручную
             if (!isTrebisToken && isShowAuth) {
-                let key = '';
-                let token = '';
-                const localStorage = this._getLocalStorage();
-                if (localStorage) {
-                    key = localStorage.key;
-                    token = localStorage.token;
+                const auth = await TrebisAuth.getAuth();
+                const isAuth = TrebisAuth.isValid(auth);
+                let message = 'Не удалось получить токен trello. Авторизуйтесь, чтобы trebis мог работать через api trello.';
+                if (isAuth) {
+                    message = `Trebis авторизован в trello, срок действия токена: ${TrebisAuth.EXPIRATIONS[auth.expiration]}.`;
+                } else if (auth.token) {
+                    message = 'Срок действия токена trello истек. Авторизуйтесь повторно.';
                 }
-                const tKey = 'trebis_key';
-                const tToken = 'trebis_token';
 
                 const content: string = '<div class="window-main-col" style="margin:12px 40px 8px 56px;">' +
-                    `${localStorage ? '<a href="#" id="trebis_getOrdId">Выбрать организацию по умолчанию</a>' : ''}` +
-                    '<span>Узнать ключ и токен: <a href="https://trello.com/app-key" target="_blank">тут</a></span>' +
-                    '<form action="#" id="trebis_data"><div>' +
-                    `<label for="${tKey}">key</label>` +
-                    `<input type="text" id="${tKey}" style="width:100%" value="${key}">` +
-                    '</div><div>' +
-                    `<label for="${tToken}">token</label>` +
-                    `<input type="text" id="${tToken}" style="width:100%"  value="${token}">` +
-                    '</div><div>' +
-                    TrelloUI.getButton('Сохранить') +
-                    `</div></form></div>`;
+                    `${isAuth ? '<a href="#" id="trebis_getOrdId">Выбрать организацию по умолчанию</a>' : ''}` +
+                    `<form action="#" id="trebis_data"><p>${message}</p>` +
+                    '<p>Авторизация выполняется на странице расширения: укажите ключ приложения trello, права и срок действия токена.</p>' +
+                    TrelloUI.getButton(isAuth ? 'Авторизоваться повторно' : 'Авторизоваться') +
+                    '</form></div>';
                 TrelloUI.openModal(content, 'Настройки');
 
                 const trebisData: HTMLElement = document.getElementById('trebis_data');
                 trebisData.onsubmit = e => {
-                    e.stopPropagation();
-                    const keyElement: HTMLInputElement = document.getElementById(tKey) as HTMLInputElement;
-                    const tokenElement: HTMLInputElement = document.getElementById(tToken) as HTMLInputElement;
-                    const data: ILocalStorage = {
-                        key: keyElement.value,
-                        token: tokenElement.value
-                    };
-                    this._setLocalStorage(data);
+                    e.preventDefault();
+                    window.open(TrebisAuth.getPageUrl(), '_blank');
                     TrelloUI.closeModal();
                 };
-                if (localStorage) {
+                if (isAuth) {
                     const getOrgId: HTMLElement = document.getElementById('trebis_getOrdId');
                     getOrgId.onclick = e => {
                         e.preventDefault();
@@ -259,6 +889,9 @@ export namespace TREBIS {
                 if (boards && boards.organizations) {
                     const formName = 'trebis_board-id';
                     const radioName = 'trebis_org-name';
+                    const concurrencyName = 'trebis_concurrency';
+                    contentHTML += '<a href="#" id="trebis_open-calendar">Рабочий календарь</a>';
+                    contentHTML += this._getSettingsTransferTemplate();
                     contentHTML += `<form action="#" class="${formName}"><label for="${formName}">Выберите рабочее пространство для работы:</label>`
                     boards.organizations.forEach((org) => {
                         let value = org.name;
@@ -267,19 +900,35 @@ export namespace TREBIS {
                         }
                         contentHTML += `<p class="${radioName}" style="cursor: pointer;"><input type="radio" style="margin-right: 7px;" name="${radioName}" value="${org.name}|${org.id}" ${orgName === org.name ? 'checked' : ''}>${value}</p>`
                     });
+                    contentHTML += `<p><label for="${concurrencyName}">Количество одновременно обрабатываемых досок в общей статистике</label>` +
+                        `<input type="number" min="1" max="20" id="${concurrencyName}" value="${this._getConcurrency()}" style="width:100%"></p>`;
+                    contentHTML += await this._getStatisticStoreTemplate(orgName);
                     contentHTML += TrelloUI.getButton('Сохранить');
                     contentHTML += '</form>';
                     TrelloUI.openModal(contentHTML, 'Выбор рабочего пространства по умолчанию');
 
+                    document.getElementById('trebis_open-calendar').onclick = (e) => {
+                        e.preventDefault();
+                        TrelloUI.closeModal();
+                        this.openCalendarModal();
+                    };
+                    this._initSettingsTransfer();
                     const tForm: HTMLFormElement = document.querySelector(`.${formName}`);
                     tForm.onsubmit = (e) => {
                         e.stopPropagation();
                         const selectValue = tForm.elements[radioName]?.value;
                         if (selectValue) {
                             const parseValue = selectValue.split('|');
-                            utils.setLocalStorage(Trebis.SAVED_ORG_NAME, parseValue[0]);
-                            utils.setLocalStorage(Trebis.SAVED_ORG_ID, parseValue[1]);
+                            TrebisSettings.update((data) => {
+                                data.org.name = parseValue[0];
+                                data.org.id = parseValue[1];
+                            });
+                        }
+                        const concurrency = Number((document.getElementById(concurrencyName) as HTMLInputElement).value);
+                        if (concurrency > 0) {
+                            TrebisSettings.set('concurrency', Math.round(concurrency));
                         }
+                        this._saveStatisticStoreSettings();
                         TrelloUI.closeModal();
                     }
                     tForm.onclick = (e) => {
@@ -295,6 +944,97 @@ export namespace TREBIS {
             }
         }
 
+        /**
+         * Получение шаблона с выгрузкой и загрузкой настроек, а также очисткой закэшированных идентификаторов
+         */
+        protected _getSettingsTransferTemplate(): string {
+            return `<p><a href="#" id="${this.SETTINGS_EXPORT}">Выгрузить настройки</a> | ` +
+                `<a href="#" id="${this.SETTINGS_CACHE_CLEAR}" title="Идентификаторы досок и меток будут заново получены из trello">` +
+                'Очистить кэш досок и меток</a></p>' +
+                `<p><label for="${this.SETTINGS_IMPORT}">Загрузить настройки (json)</label>` +
+                `<input type="file" id="${this.SETTINGS_IMPORT}" accept=".json" style="width:100%"></p>`;
+        }
+
+        /**
+         * Обработчики выгрузки и загрузки настроек
+         */
+        protected _initSettingsTransfer(): void {
+            document.getElementById(this.SETTINGS_EXPORT).onclick = (e) => {
+                e.preventDefault();
+                TrelloUI.downloadAsFile(`trebis_settings_${utils.date(Date.now(), true)}.json`, TrebisSettings.export());
+            };
+            document.getElementById(this.SETTINGS_CACHE_CLEAR).onclick = (e) => {
+                e.preventDefault();
+                TrebisSettings.invalidate();
+                TrelloUI.successNotification('Кэш досок и меток очищен');
+            };
+            const importInput = document.getElementById(this.SETTINGS_IMPORT) as HTMLInputElement;
+            importInput.onchange = async () => {
+                const file = importInput.files[0];
+                if (file) {
+                    const error = TrebisSettings.import(await file.text());
+                    if (error) {
+                        TrelloUI.errorNotification(error);
+                        return;
+                    }
+                    if (this._trebis) {
+                        this._trebis.calendar = TrebisCalendar.getCalendar();
+                    }
+                    TrelloUI.closeModal();
+                    TrelloUI.successNotification('Настройки загружены');
+                }
+            };
+        }
+
+        /**
+         * Получение шаблона с настройками хранилища статистики рабочего пространства
+         * @param orgName Рабочее пространство, доски которого можно выбрать для хранения статистики
+         */
+        protected async _getStatisticStoreTemplate(orgName: string): Promise<string> {
+            const settings = StatisticStore.getSettings();
+            const org = orgName ? await this._trebis.trello.getOrganizations(orgName) : null;
+            const types: Record<TStatisticStoreType, string> = {
+                rest: 'REST сервер',
+                indexeddb: 'Браузер (IndexedDB)',
+                trello: 'Архивные карточки на доске trello'
+            };
+            let boardOptions = '<option value="">Не выбрана</option>';
+            (org?.boards || []).forEach((board) => {
+                boardOptions += `<option value="${board.id}" ${settings.boardId === board.id ? 'selected' : ''}>` +
+                    `${utils.escapeHtml(board.name)}</option>`;
+            });
+            return `<p><label for="${this.STORE_TYPE}">Хранилище статистики рабочего пространства</label>` +
+                `<select id="${this.STORE_TYPE}" style="width:100%">` +
+                Object.keys(types).map((type) => {
+                    return `<option value="${type}" ${settings.type === type ? 'selected' : ''}>${types[type]}</option>`;
+                }).join('') + '</select></p>' +
+                `<p><label for="${this.STORE_URL}">Адрес REST сервера</label>` +
+                `<input type="url" id="${this.STORE_URL}" value="${utils.escapeHtml(settings.url || '')}" ` +
+                'style="width:100%"></p>' +
+                `<p><label for="${this.STORE_BOARD}">Доска для хранения статистики в trello</label>` +
+                `<select id="${this.STORE_BOARD}" style="width:100%">${boardOptions}</select></p>`;
+        }
+
+        /**
+         * Сохранение настроек хранилища статистики из формы настроек
+         */
+        protected _saveStatisticStoreSettings(): void {
+            const type = (document.getElementById(this.STORE_TYPE) as HTMLSelectElement)?.value as TStatisticStoreType;
+            if (!type) {
+                return;
+            }
+            const settings: IStatisticStoreSettings = {
+                type,
+                url: (document.getElementById(this.STORE_URL) as HTMLInputElement).value.trim() || ServerApi.DEFAULT_URL,
+                boardId: (document.getElementById(this.STORE_BOARD) as HTMLSelectElement).value || null
+            };
+            if (settings.type === 'trello' && !settings.boardId) {
+                TrelloUI.errorNotification('Не выбрана доска для хранения статистики');
+                return;
+            }
+            StatisticStore.saveSettings(settings);
+        }
+
         protected _getStatisticResultTemplate(statInfo: ITrebisStatisticText, title?: string): string {
             const style = (color: string): string => {
                 return `border-bottom:3px solid ${color};border-radius:4px;width:20%;`;
@@ -307,6 +1047,94 @@ export namespace TREBIS {
                 '<tr>';
         }
 
+        /**
+         * Получение таблиц со статистикой: итог, показатели, график по дням и статистика по участникам.
+         * Если в фильтре выбран участник, то итог, показатели и таблица выводятся только по нему
+         * @param statInfo
+         * @param title
+         * @param metrics
+         */
+        protected _getStatisticTables(statInfo: ITrebisStatistic, title: string, metrics: ITrebisMetrics = null): string {
+            const members = statInfo.members || {};
+            const selectedMember = this._getSelectedMember();
+            const empty: ITrebisStatistic = {red: 0, yellow: 0, blue: 0, green: 0};
+            const total = selectedMember ? (members[selectedMember] || empty) : statInfo;
+            let res = `<table>${this._getStatisticResultTemplate(total, title)}</table>` +
+                (metrics ? this._getMetricsTemplate(total, metrics, selectedMember) : '') +
+                TrebisChart.getSvg(TrebisChart.getSeries(statInfo.days, selectedMember));
+            const usernames = Object.keys(members).filter(username => !selectedMember || username === selectedMember).sort();
+            if (usernames.length) {
+                res += '<h4>По участникам</h4><table>';
+                usernames.forEach((username) => {
+                    res += this._getStatisticResultTemplate(members[username], utils.escapeHtml(username));
+                });
+                res += '</table>';
+            }
+            if (statInfo.report) {
+                res += this._getListDatesReportTemplate(statInfo.report);
+            }
+            return res;
+        }
+
+        /**
+         * Получение списков, которые были пропущены или получили другую дату при подсчете статистики
+         * @param report
+         */
+        protected _getListDatesReportTemplate(report: ITrebisListDatesReport): string {
+            const count = report.skipped.length + report.redated.length + report.outOfOrder.length;
+            if (!count) {
+                return '';
+            }
+            const getName = (list: ITrelloListData) => `<b>${utils.escapeHtml(list.name)}</b>`;
+            const getDate = (date: Date) => utils.date(date.getTime(), true);
+            return `<details><summary>Списки, требующие внимания: ${count}</summary>` +
+                this._getListItemsTemplate('Пропущены, так как не удалось определить дату',
+                    report.skipped.map(item => `${getName(item.list)} - ${TrebisDateParser.ERRORS[item.reason]}`)) +
+                this._getListItemsTemplate('Год определен по соседним спискам',
+                    report.redated.map(item => `${getName(item.list)} - ${getDate(item.date)}`)) +
+                this._getListItemsTemplate('Расположены не по порядку, учтены по дате',
+                    report.outOfOrder.map(item => `${getName(item.list)} - ${getDate(item.date)}`)) +
+                '</details>';
+        }
+
+        /**
+         * Получение блока со списком элементов. Если элементов нет, то пустая строка
+         * @param title
+         * @param items
+         */
+        protected _getListItemsTemplate(title: string, items: string[]): string {
+            return items.length ? `<h4>${title}</h4><ul>${items.map(item => `<li>${item}</li>`).join('')}</ul>` : '';
+        }
+
+        /**
+         * Получение показателей продуктивности. Проценты пересчитываются по переданной статистике,
+         * чтобы учитывать выбранного участника
+         * @param statInfo
+         * @param metrics
+         * @param member
+         */
+        protected _getMetricsTemplate(statInfo: ITrebisStatistic, metrics: ITrebisMetrics, member: string = null): string {
+            const percent = (value: number) => value === null ? '-' : `${value}%`;
+            const total = TrebisMetrics.getTotal(statInfo);
+            const averagePerDay = metrics.workingDays ? Math.round(total / metrics.workingDays * 10) / 10 : '-';
+            let res = '<table>' +
+                `<tr><td>Выполнено задач</td><td>${percent(TrebisMetrics.getCompletionRate(statInfo))}</td></tr>` +
+                `<tr><td>Перенесено задач</td><td>${percent(TrebisMetrics.getCarryOverRate(statInfo))}</td></tr>` +
+                `<tr><td>Задач за рабочий день</td><td>${averagePerDay}</td></tr>` +
+                '</table>';
+            const chronicCards = metrics.chronicCards.filter(card => !member || card.members.includes(member));
+            if (chronicCards.length) {
+                res += `<h4>Задачи, переносимые больше ${metrics.chronicDays} дней подряд</h4><table>`;
+                chronicCards.forEach((card) => {
+                    const name = utils.escapeHtml(card.name);
+                    res += `<tr><td>${card.url ? `<a href="${card.url}" target="_blank">${name}</a>` : name}</td>` +
+                        `<td>${card.days} дн.</td><td>${card.startDate} - ${card.lastDate}</td></tr>`;
+                });
+                res += '</table>';
+            }
+            return res;
+        }
+
         protected _getStatisticContentTemplate(isFull: boolean = false): string {
             const oldDate = Date.now() - utils.getDayInSec(7);
             const dateStart = utils.date(oldDate, true);
@@ -328,6 +1156,28 @@ export namespace TREBIS {
                 `<p id="${this.STAT_DATE_OLD_MONTH}" style="${styleLink}">За ${oldMonth}</p>` +
                 `<p id="${this.STAT_DATE_ALL}" style="${styleLink}">За все время</p>` +
                 `<p id="${this.STAT_DATE_COMPARISON}" style="${styleLink}">Сравнить ${thisMonth} и ${oldMonth}</p>` +
+                (TrebisStatisticCache.isSupported() ?
+                    `<p id="${this.STAT_CACHE_REBUILD}" style="${styleLink}" title="Статистика будет заново посчитана по всем карточкам и отправлена в хранилище">` +
+                    'Пересобрать кэш</p>' : '') +
+                '<div style="margin:10px 0"><b>Сравнение периодов</b><div style="display:flex;align-items:flex-end">' +
+                `<div style="flex-grow:1"><label for="${this.STAT_COMPARE_TYPE}">Что сравнить</label>` +
+                `<select id="${this.STAT_COMPARE_TYPE}" style="width:100%">` +
+                '<option value="ranges">Выбранный период с другим периодом</option>' +
+                '<option value="week">Последние недели</option>' +
+                '<option value="month">Последние месяцы</option>' +
+                '<option value="quarter">Последние кварталы</option>' +
+                '</select></div>' +
+                `<div style="margin-left:15px"><label for="${this.STAT_COMPARE_COUNT}">Количество</label>` +
+                `<input type="number" id="${this.STAT_COMPARE_COUNT}" min="2" max="12" value="3" style="width:80px">` +
+                '</div></div>' +
+                '<div style="display:flex">' +
+                `<div style="flex-grow:1"><label for="${this.STAT_COMPARE_START}">Другой период с</label>` +
+                `<input type="date" id="${this.STAT_COMPARE_START}" style="width:100%"></div>` +
+                `<div style="margin-left:15px;flex-grow:1"><label for="${this.STAT_COMPARE_END}">по</label>` +
+                `<input type="date" id="${this.STAT_COMPARE_END}" style="width:100%"></div></div>` +
+                TrelloUI.getButton('Сравнить', this.STAT_COMPARE_BTN, 'width:100%') + '</div>' +
+                `<div><label for="${this.STAT_MEMBER}">Участник</label>` +
+                `<select id="${this.STAT_MEMBER}" style="width:100%"><option value="">Все участники</option></select></div>` +
                 TrelloUI.getButton('Получить', this.STAT_BTN, 'width:100%') +
                 '</div></div>';
 
@@ -407,16 +1257,42 @@ export namespace TREBIS {
             return '';
         }
 
-        private _saveStatistic(contentHtml: HTMLElement): void {
+        /**
+         * Добавление кнопок для скачивания статистики в html, csv и xlsx
+         * @param contentHtml Блок со статистикой
+         * @param sheets Данные статистики по листам. Если не указаны, то доступно только скачивание html
+         */
+        private _saveStatistic(contentHtml: HTMLElement, sheets: ITrebisExportSheet[] = null): void {
             const saveStat = 'trebis_save-stat';
+            const saveCsv = 'trebis_save-stat-csv';
+            const saveXlsx = 'trebis_save-stat-xlsx';
             const body = contentHtml.innerHTML;
-            contentHtml.innerHTML += TrelloUI.getButton('Скачать', saveStat);
+            contentHtml.innerHTML += '<div style="display:flex;gap:10px">' +
+                TrelloUI.getButton('Скачать', saveStat) +
+                (sheets?.length ?
+                    TrelloUI.getButton('Скачать CSV', saveCsv) + TrelloUI.getButton('Скачать XLSX', saveXlsx) : '') +
+                '</div>';
             const saveBtn: HTMLElement = document.querySelector(`.${saveStat}`);
             if (saveBtn) {
                 saveBtn.onclick = e => {
                     e.preventDefault();
                     const content = `<!DOCTYPE><html><head></head><body>${body}</body></html>`;
-                    utils.downloadAsFile('statistic.html', content, {type: 'text/html'})
+                    TrelloUI.downloadAsFile('statistic.html', content, {type: 'text/html'})
+                };
+            }
+            const csvBtn: HTMLElement = document.querySelector(`.${saveCsv}`);
+            if (csvBtn) {
+                csvBtn.onclick = e => {
+                    e.preventDefault();
+                    TrelloUI.downloadAsFile('statistic.csv', TrebisExport.toCsv(sheets), {type: 'text/csv'});
+                };
+            }
+            const xlsxBtn: HTMLElement = document.querySelector(`.${saveXlsx}`);
+            if (xlsxBtn) {
+                xlsxBtn.onclick = e => {
+                    e.preventDefault();
+                    TrelloUI.downloadAsFile('statistic.xlsx', TrebisExport.toXlsx(sheets),
+                        {type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'});
                 };
             }
         }
@@ -426,12 +1302,13 @@ export namespace TREBIS {
                 TrelloUI.showIndicator();
                 await this._getBoardId();
                 TrelloUI.successNotification('Получение данных');
-                const statInfo = await this._trebis.getStatistic(dateStart, dateEnd);
+                const metricsInfo = await this._trebis.getMetrics(dateStart, dateEnd);
                 const statisticContent: HTMLElement = document.querySelector(`.${this.STAT_CONTENT}`);
-                if (statInfo) {
-                    statisticContent.innerHTML =
-                        `<h2>Информация с ${dateStart} по ${dateEnd}</h2><table>${this._getStatisticResultTemplate(statInfo, 'Итог')}</table>`;
-                    this._saveStatistic(statisticContent);
+                if (metricsInfo) {
+                    statisticContent.innerHTML = `<h2>${this._getPeriodTitle(dateStart, dateEnd)}</h2>` +
+                        this._getStatisticTables(metricsInfo.statistic, 'Итог', metricsInfo.metrics);
+                    this._saveStatistic(statisticContent,
+                        [TrebisExport.getStatisticSheet(this._getBoardName() || 'Доска', metricsInfo.statistic)]);
                 } else {
                     statisticContent.innerHTML = '<p style="color:red">Произошла ошибка при получении доски</p>';
                 }
@@ -447,24 +1324,27 @@ export namespace TREBIS {
                 const orgBoards: ITrelloOrg = await this._trebis.trello.getOrganizations(orgName);
                 const statisticContent: HTMLElement = document.querySelector(`.${this.STAT_CONTENT}`);
                 if (orgBoards?.boards) {
-                    statisticContent.innerHTML = `<h2>Информация с ${dateStart} по ${dateEnd}</h2>`;
-                    for (const board of orgBoards.boards) {
-                        this._trebis.boardId = board.id;
-                        TrelloUI.successNotification(`Получение данных по доске ${board.name}`);
-                        const statInfo = await this._trebis.getStatistic(dateStart, dateEnd,
+                    statisticContent.innerHTML = `<h2>${this._getPeriodTitle(dateStart, dateEnd)}</h2>`;
+                    // Участники получаются один раз, копии Trebis для досок используют уже полученные данные
+                    await this._trebis.getMemberNames();
+                    const sheets: ITrebisExportSheet[] = [];
+                    await this._forEachOrgBoard(statisticContent, orgBoards.boards, async (trebis, board, container, lists) => {
+                        const metricsInfo = lists ? await trebis.getMetrics(dateStart, dateEnd,
                             {
                                 boardName: board.name,
-                                isSaveOnServer: true
-                            });
-                        if (statInfo) {
-                            statisticContent.innerHTML += '<div style="margin:15px 0;">' +
-                                `<h3>Информация по доске <u>${board.name}</u></h3>` +
-                                `<table>${this._getStatisticResultTemplate(statInfo, 'Итог')}</table></div>`;
+                                isSaveOnServer: true,
+                                lists
+                            }) : null;
+                        if (metricsInfo) {
+                            container.innerHTML = `<h3>Информация по доске <u>${board.name}</u></h3>` +
+                                this._getStatisticTables(metricsInfo.statistic, 'Итог', metricsInfo.metrics);
+                            sheets[orgBoards.boards.indexOf(board)] =
+                                TrebisExport.getStatisticSheet(board.name, metricsInfo.statistic);
                         } else {
-                            statisticContent.innerHTML += `<p style="color:red">Произошла ошибка при получении доски <u>${board.name}</u></p>`;
+                            container.innerHTML = `<p style="color:red">Произошла ошибка при получении доски <u>${board.name}</u></p>`;
                         }
-                    }
-                    this._saveStatistic(statisticContent);
+                    });
+                    this._saveStatistic(statisticContent, sheets.filter(sheet => sheet));
                     TrelloUI.successNotification(`Статистика получена`);
                 } else {
                     statisticContent.innerHTML = '<span style="color:red">Произошла ошибка при получении информации</span>';
@@ -474,111 +1354,223 @@ export namespace TREBIS {
             await this._getTrebisQuery(callback);
         }
 
+        /**
+         * Получение количества одновременно обрабатываемых досок
+         */
+        protected _getConcurrency(): number {
+            return TrebisSettings.get('concurrency') || this.DEFAULT_CONCURRENCY;
+        }
+
+        /**
+         * Параллельная обработка всех досок рабочего пространства.
+         * Для каждой доски заранее создается блок, в который выводится результат по мере получения.
+         * Списки всех досок заранее запрашиваются через batch запросы, после чего доски обрабатываются параллельно,
+         * не более указанного в настройках количества одновременно. Каждая доска обрабатывается
+         * отдельным экземпляром Trebis, так как он хранит состояние доски
+         * @param statisticContent
+         * @param boards
+         * @param callback В callback передаются списки доски, либо null, если их не удалось получить
+         */
+        protected async _forEachOrgBoard(statisticContent: HTMLElement, boards: ITrelloBoard[],
+                                         callback: (trebis: Trebis, board: ITrelloBoard, container: HTMLElement,
+                                                    lists: ITrelloListData[]) => Promise<void>)
+            : Promise<void> {
+            const progress = document.createElement('p');
+            progress.innerText = `Обработано 0/${boards.length} досок`;
+            statisticContent.append(progress);
+            const containers = boards.map((board) => {
+                const container = document.createElement('div');
+                container.style.margin = '15px 0';
+                container.innerHTML = `<h3>Информация по доске <u>${board.name}</u></h3><p>Загрузка...</p>`;
+                statisticContent.append(container);
+                return container;
+            });
+            const lists = await this._trebis.trello.getListsBatch(boards.map(board => board.id),
+                Trebis.getListsParams(!!this._trebis.statisticCache));
+            await RequestScheduler.map(boards, async (board, index) => {
+                if (this._isUnauthorized) {
+                    return;
+                }
+                const trebis = this._trebis.clone();
+                trebis.boardId = board.id;
+                await callback(trebis, board, containers[index], lists[board.id]);
+            }, {
+                concurrency: this._getConcurrency(),
+                onProgress: (done, total) => {
+                    progress.innerText = `Обработано ${done}/${total} досок`;
+                }
+            });
+            progress.remove();
+        }
+
         private async _getTrebisQuery(callback: Function): Promise<void> {
-            if (!this._trebis) {
-                this._trebisInit();
-            }
-            if (this._trebis) {
-                return callback();
+            // После ответа 401 авторизация получается заново, например из обновленного cookie
+            const isReady = (this._trebis && !this._isUnauthorized) || await this._trebisInit();
+            if (isReady) {
+                try {
+                    return await callback();
+                } finally {
+                    if (this._isUnauthorized) {
+                        TrelloUI.hideIndicator();
+                    }
+                }
             } else {
                 this.openSettingModal();
             }
         }
 
+        /**
+         * Получение разницы между периодами: абсолютное изменение и изменение в процентах.
+         * Цвет показывает, стало лучше или хуже
+         * @param old
+         * @param current
+         */
         protected _comparisonEqual(old: ITrebisStatistic, current: ITrebisStatistic): ITrebisStatisticText {
-            const el = (value: number, color: string, title: string) => {
-                return `<span style="color:${color}" title="${title}">${value}</span>`;
-            };
-            let red;
-            let yellow;
-            let green;
-            let blue;
-            let infoText = 'Не выполненных задач';
-            if (old.red < current.red) {
-                red = el(current.red - old.red, 'red', `Плохо! ${infoText} больше`);
-            } else {
-                red = el(old.red - current.red, 'green', `Супер! ${infoText} меньше`);
-            }
-            infoText = 'Перенесенных задач'
-            if (old.yellow < current.yellow) {
-                yellow = el(current.yellow - old.yellow, 'red', `Плохо! ${infoText} больше`);
-            } else {
-                yellow = el(old.yellow - current.yellow, 'green', `Good! ${infoText} меньше`);
-            }
-            infoText = 'Выполненных задач';
-            if (old.green < current.green) {
-                green = el(current.green - old.green, 'green', `Супер! ${infoText} больше`);
-            } else {
-                green = el(old.green - current.green, 'red', `Не очень! ${infoText} меньше`);
-            }
-            if (old.blue < current.blue) {
-                blue = el(current.blue - old.blue, 'green', 'Отлично! Выполненных вне плана задач больше');
-            } else {
-                blue = el(old.blue - current.blue, 'red', 'Могло быть и лучше');
-            }
+            const delta = TrebisMetrics.getDelta(old, current);
+            const el = (color: string, isGood: boolean, goodTitle: string, badTitle: string) => {
+                const {diff, percent} = delta[color];
+                const sign = (value: number) => value > 0 ? `+${value}` : `${value}`;
+                const text = `${sign(diff)}${percent === null ? '' : ` (${sign(percent)}%)`}`;
+                if (!diff) {
+                    return `<span title="Без изменений">${text}</span>`;
+                }
+                return `<span style="color:${isGood ? 'green' : 'red'}" title="${isGood ? goodTitle : badTitle}">${text}</span>`;
+            };
             return {
-                red,
-                yellow,
-                green,
-                blue
+                red: el('red', delta.red.diff < 0, 'Супер! Не выполненных задач меньше', 'Плохо! Не выполненных задач больше'),
+                yellow: el('yellow', delta.yellow.diff < 0,
+                    'Good! Перенесенных задач меньше', 'Плохо! Перенесенных задач больше'),
+                green: el('green', delta.green.diff > 0, 'Супер! Выполненных задач больше', 'Не очень! Выполненных задач меньше'),
+                blue: el('blue', delta.blue.diff > 0, 'Отлично! Выполненных вне плана задач больше', 'Могло быть и лучше')
             };
         }
 
-        private async _getComparisonResult(isFull: boolean) {
+        /**
+         * Получение периодов для сравнения из формы сравнения
+         */
+        protected _getComparisonPeriods(): IDateRange[] {
+            const type = (document.getElementById(this.STAT_COMPARE_TYPE) as HTMLSelectElement).value;
+            if (type === 'ranges') {
+                const getValue = (id: string) => utils.revertDate((document.getElementById(id) as HTMLInputElement).value, false);
+                const periods: IDateRange[] = [
+                    {start: getValue(this.STAT_DATE_START), end: getValue(this.STAT_DATE_END)},
+                    {start: getValue(this.STAT_COMPARE_START), end: getValue(this.STAT_COMPARE_END)}
+                ];
+                if (periods.some(period => !utils.getDate(period.start) || !utils.getDate(period.end))) {
+                    return null;
+                }
+                const calendar = this._getCalendar();
+                periods.forEach((period) => {
+                    period.title = `${period.start} - ${period.end}`;
+                    period.workingDays = calendar.getWorkingDaysCount(utils.getDate(period.start), utils.getDate(period.end));
+                });
+                return periods.sort((a, b) => utils.getDate(a.start).getTime() - utils.getDate(b.start).getTime());
+            }
+            const count = Number((document.getElementById(this.STAT_COMPARE_COUNT) as HTMLInputElement).value);
+            return utils.getPeriods(type as TPeriodType, Math.min(12, Math.max(2, count || 2)), this._getCalendar());
+        }
+
+        /**
+         * Получение таблицы сравнения: статистика за каждый период и изменение относительно предыдущего периода
+         * @param periods Периоды от более старого к более новому
+         * @param statistics Статистика за каждый период
+         */
+        protected _getComparisonTemplate(periods: IDateRange[], statistics: ITrebisStatistic[]): string {
+            let res = '<table>';
+            periods.forEach((period, index) => {
+                const title = period.workingDays === undefined ? period.title :
+                    `${period.title} (рабочих дней: ${period.workingDays})`;
+                res += this._getStatisticResultTemplate(statistics[index], title);
+            });
+            for (let i = 1; i < periods.length; i++) {
+                res += this._getStatisticResultTemplate(this._comparisonEqual(statistics[i - 1], statistics[i]),
+                    `Изменение: ${periods[i - 1].title} → ${periods[i].title}`);
+            }
+            return res + '</table>';
+        }
+
+        /**
+         * Сравнение статистики за несколько периодов по текущей доске или по всем доскам рабочего пространства
+         * @param isFull
+         * @param periods Периоды от более старого к более новому
+         */
+        private async _getComparisonResult(isFull: boolean, periods: IDateRange[]) {
             const callback = async () => {
                 const statisticContent: HTMLElement = document.querySelector(`.${this.STAT_CONTENT}`);
-                const comparisonCallback = async (thisMonth: string, oldMonth: string) => {
-                    const thisDate = utils.getThisMonth();
-                    const statInfo = await this._trebis.getStatistic(thisDate.start, thisDate.end);
-                    const oldDate = utils.getOldMonth();
-                    const statInfoOld = await this._trebis.getStatistic(oldDate.start, oldDate.end);
-                    if (statInfo && statInfoOld) {
-                        statisticContent.innerHTML += '<table>' +
-                            this._getStatisticResultTemplate(statInfo, thisMonth) +
-                            this._getStatisticResultTemplate(statInfoOld, oldMonth) +
-                            this._getStatisticResultTemplate(this._comparisonEqual(statInfoOld, statInfo), 'Итог') +
-                            '</table>';
-                    } else {
-                        statisticContent.innerHTML += '<p style="color:red">Произошла ошибка при получении доски</p>';
+                const sheets: ITrebisExportSheet[] = [];
+                const comparisonCallback = async (trebis: Trebis, sheetIndex: number, sheetName: string,
+                                                  lists: ITrelloListData[] = null): Promise<string> => {
+                    // Списки получаются один раз и используются для всех периодов
+                    lists = lists || await trebis.getLists();
+                    if (!lists) {
+                        return '<p style="color:red">Произошла ошибка при получении доски</p>';
+                    }
+                    const statistics: ITrebisStatistic[] = [];
+                    for (const period of periods) {
+                        const statInfo = await trebis.getStatistic(period.start, period.end, {lists});
+                        if (!statInfo) {
+                            return '<p style="color:red">Произошла ошибка при получении доски</p>';
+                        }
+                        statistics.push(statInfo);
                     }
+                    sheets[sheetIndex] = TrebisExport.getComparisonSheet(sheetName, periods, statistics);
+                    return this._getComparisonTemplate(periods, statistics);
                 };
                 TrelloUI.showIndicator();
-                const month = (new Date()).getMonth();
-                const thisMonth = this._getMonthText(month);
-                const oldMonth = this._getMonthText(month - 1);
-                statisticContent.innerHTML = `<h2>Сравнение за ${thisMonth} и ${oldMonth}</h2>`;
+                statisticContent.innerHTML = `<h2>Сравнение: ${periods.map(period => period.title).join(', ')}</h2>`;
                 if (isFull) {
                     const orgName = Trebis.getOrgName();
                     const orgBoards: ITrelloOrg = await this._trebis.trello.getOrganizations(orgName);
                     if (orgBoards && orgBoards.boards) {
-                        for (const board of orgBoards.boards) {
-                            this._trebis.boardId = board.id;
-                            statisticContent.innerHTML += `<h3>Информация по доске <u>${board.name}</u></h3>`;
-                            TrelloUI.successNotification(`Получение данных по доске ${board.name}`);
-                            await comparisonCallback(thisMonth, oldMonth);
-                        }
+                        await this._forEachOrgBoard(statisticContent, orgBoards.boards,
+                            async (trebis, board, container, lists) => {
+                                container.innerHTML = `<h3>Информация по доске <u>${board.name}</u></h3>` +
+                                    (lists ?
+                                        await comparisonCallback(trebis, orgBoards.boards.indexOf(board), board.name, lists) :
+                                        '<p style="color:red">Произошла ошибка при получении доски</p>');
+                            });
                     }
                 } else {
                     await this._getBoardId();
                     TrelloUI.successNotification('Получение данных');
-                    await comparisonCallback(thisMonth, oldMonth);
+                    statisticContent.innerHTML += await comparisonCallback(this._trebis, 0, this._getBoardName() || 'Доска');
                 }
+                this._saveStatistic(statisticContent, sheets.filter(sheet => sheet));
                 TrelloUI.hideIndicator();
             };
             await this._getTrebisQuery(callback);
         }
 
-        protected async _getStatisticFromServer(year: string): Promise<string> {
-            const serverApi = new ServerApi();
+        protected async _getStatisticFromServer(statisticContent: HTMLElement, year: string): Promise<void> {
+            const statisticStore = StatisticStore.create(this._trebis.trello);
             const orgId = await this._trebis.getOrgId();
-            const statData = await serverApi.get(year, orgId);
+            const statData = await statisticStore.get(year, orgId);
             if (statData.status) {
-                return this._getStatisticServerResultTemplate(statData.res, year);
+                statisticContent.innerHTML = this._getStatisticServerResultTemplate(statData.res, year);
+                this._saveStatistic(statisticContent, this._getStatisticServerSheets(statData.res, year));
             } else {
-                return '<p style="color:red">Не удалось получить данные с сервера</p>';
+                statisticContent.innerHTML = '<p style="color:red">Не удалось получить данные с сервера</p>';
             }
         }
 
+        /**
+         * Получение данных статистики с сервера для выгрузки: лист на каждую доску со статистикой по месяцам и итогом за год
+         * @param serverData
+         * @param year
+         */
+        protected _getStatisticServerSheets(serverData: IServerApiRequestRes, year: string): ITrebisExportSheet[] {
+            return Object.keys(serverData.data || {}).map((boardName) => {
+                const rows: TExportCell[][] = [['Месяц', ...TrebisExport.HEADER.slice(1)]];
+                Object.keys(serverData.data[boardName]).forEach((month) => {
+                    rows.push(TrebisExport.getStatisticRow(this._getMonthText(Number(month)), serverData.data[boardName][month]));
+                });
+                if (serverData.total?.[boardName]) {
+                    rows.push(TrebisExport.getStatisticRow(`Итог за ${year}`, serverData.total[boardName]));
+                }
+                return {name: boardName, rows};
+            });
+        }
+
         protected _getStatistic(isFull: boolean): void {
             let statisticCallback = this._getStatisticResult.bind(this);
             if (isFull) {
@@ -611,7 +1603,30 @@ export namespace TREBIS {
             const comparisonBtn: HTMLElement = document.getElementById(this.STAT_DATE_COMPARISON);
             comparisonBtn.onclick = async (e: MouseEvent) => {
                 e.preventDefault();
-                await this._getComparisonResult(isFull);
+                const month = (new Date()).getMonth();
+                const oldMonth = utils.getOldMonth(this._getCalendar());
+                const thisMonth = utils.getThisMonth(this._getCalendar());
+                await this._getComparisonResult(isFull, [
+                    {...oldMonth, title: this._getMonthText(month - 1)},
+                    {...thisMonth, title: this._getMonthText(month)}
+                ]);
+            };
+            const cacheRebuildBtn: HTMLElement = document.getElementById(this.STAT_CACHE_REBUILD);
+            if (cacheRebuildBtn) {
+                cacheRebuildBtn.onclick = async (e: MouseEvent) => {
+                    e.preventDefault();
+                    await this._rebuildStatisticCache(isFull);
+                };
+            }
+            const compareBtn: HTMLElement = document.querySelector(`.${this.STAT_COMPARE_BTN}`);
+            compareBtn.onclick = async (e: MouseEvent) => {
+                e.preventDefault();
+                const periods = this._getComparisonPeriods();
+                if (periods) {
+                    await this._getComparisonResult(isFull, periods);
+                } else {
+                    TrelloUI.errorNotification('Укажите оба периода для сравнения');
+                }
             };
 
             const trebisStatRes: HTMLElement = document.querySelector(`.${this.STAT_BTN}`);
@@ -627,6 +1642,28 @@ export namespace TREBIS {
             }
         }
 
+        /**
+         * Очистка кэша статистики текущей доски или всех досок рабочего пространства.
+         * При следующем получении статистики карточки будут заново получены и посчитаны
+         * @param isFull
+         */
+        protected async _rebuildStatisticCache(isFull: boolean): Promise<void> {
+            const cache = this._getStatisticCache();
+            if (!cache) {
+                return;
+            }
+            await this._getTrebisQuery(async () => {
+                try {
+                    await cache.clear(isFull ? null : await this._getBoardId());
+                    // Статистика будет заново отправлена в хранилище, даже если она не изменилась
+                    StatisticUploader.resetHashes(StatisticStore.getKey());
+                    TrelloUI.successNotification('Кэш статистики очищен');
+                } catch (e) {
+                    TrelloUI.errorNotification('Не удалось очистить кэш статистики');
+                }
+            });
+        }
+
         public createButtons() {
             if (!document.getElementById(Application.SELECTOR)) {
                 const prefix = 'trebis_button_';
@@ -634,6 +1671,8 @@ export namespace TREBIS {
                 const runScriptName = `${prefix}run-script`;
                 const statisticName = `${prefix}statistic`;
                 const trashName = `${prefix}trash`;
+                const settingName = `${prefix}setting`;
+                const undoName = `${prefix}undo`;
                 let innerHtml = TrelloUI.getHeaderButton({
                     id: addListName,
                     title: 'Нажмите для создания списка',
@@ -646,6 +1685,12 @@ export namespace TREBIS {
                     label: 'card',
                     icon: 'card-recurring'
                 });
+                innerHtml += TrelloUI.getHeaderButton({
+                    id: undoName,
+                    title: 'Нажмите для отмены последнего действия',
+                    label: 'undo',
+                    icon: 'back'
+                });
                 let memberMenu: HTMLElement = document.querySelector('.js-open-header-member-menu');
                 let isShowDropButton = false;
                 if (memberMenu) {
@@ -653,11 +1698,7 @@ export namespace TREBIS {
                         memberMenu = memberMenu.children[0] as HTMLElement;
                     }
                     const userName = (memberMenu.title.match(/\(([^)]+)\)/gi))[0]?.replace(/[()]/gi, '');
-                    let adminUsers = this.ADMIN_USERS;
-                    const storageAdminUsers = utils.getLocalStorage('admins');
-                    if (storageAdminUsers) {
-                        adminUsers = JSON.parse(storageAdminUsers);
-                    }
+                    const adminUsers = TrebisSettings.get('org').admins || this.ADMIN_USERS;
                     if (adminUsers.includes(userName)) {
                         isShowDropButton = true;
                         innerHtml += TrelloUI.getHeaderButton({
@@ -674,6 +1715,12 @@ export namespace TREBIS {
                     label: 'info',
                     icon: 'information'
                 });
+                innerHtml += TrelloUI.getHeaderButton({
+                    id: settingName,
+                    title: 'Нажмите для открытия настроек доски',
+                    label: 'gear',
+                    icon: 'gear'
+                });
                 const buttons = document.createElement('div');
                 buttons.id = Application.SELECTOR;
                 buttons.innerHTML = innerHtml;
@@ -681,10 +1728,12 @@ export namespace TREBIS {
                 const callbacks: ITrelloUiCallback[] = [];
                 callbacks.push({id: addListName, callback: this.addListHandler.bind(this)});
                 callbacks.push({id: runScriptName, callback: this.runScriptHandler.bind(this)});
+                callbacks.push({id: undoName, callback: this.undoHandler.bind(this)});
                 if (isShowDropButton) {
                     callbacks.push({id: trashName, callback: this.removeHandler.bind(this)});
                 }
                 callbacks.push({id: statisticName, callback: this.statisticHandler.bind(this)});
+                callbacks.push({id: settingName, callback: this.boardSettingHandler.bind(this)});
                 TrelloUI.addInBoardHeader(buttons, callbacks);
             }
         }
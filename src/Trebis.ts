@@ -1,13 +1,29 @@
 import {TrelloApi} from "./api/TrelloApi";
-import {ServerApi} from "./api/ServerApi";
+import {StatisticStore} from "./api/StatisticStore";
 import {TREBIS as utils} from "./utils";
-import {TrelloUI} from "./TrelloUI";
+import {TrebisRules} from "./TrebisRules";
+import {TrebisCalendar} from "./TrebisCalendar";
+import {TrebisMetrics} from "./TrebisMetrics";
+import {TrebisStatisticCache} from "./TrebisStatisticCache";
+import {TrebisSettings} from "./TrebisSettings";
+import {TrebisDateParser} from "./TrebisDateParser";
 import {
+    IGetParams,
     IServerApiData,
+    ITrebisCarryOverPlan,
     ITrebisLabel,
     ITrebisListId,
+    ITrebisListStatisticCache,
+    ITrebisMetricsResult,
+    ITrebisRemoveResult,
+    ITrebisResolvedLists,
+    ITrebisRetentionPolicy,
+    ITrebisRetentionResult,
     ITrebisStatistic,
+    ITrebisStatisticDays,
+    ITrebisStatisticOptions,
     ITrelloCardData,
+    ITrelloLabel,
     ITrelloListData,
     ITrelloMembers,
     ITrelloOrg
@@ -15,11 +31,28 @@ import {
 
 export class Trebis {
     public static BASE_ORG_NAME = 'user24729131';
-    public static SAVED_ORG_NAME = 'saved_org-name';
-    public static SAVED_ORG_ID = 'saved_org-id';
+    public static DEFAULT_RETENTION_POLICY: ITrebisRetentionPolicy = {
+        type: 'days',
+        days: 30,
+        date: null,
+        unparsed: 'keep'
+    };
+    /**
+     * Поля карточек, получаемые при использовании кэша статистики
+     */
+    public static LIGHT_CARD_FIELDS = 'name,idMembers,shortUrl,dateLastActivity';
     public trello: TrelloApi;
+    public calendar: TrebisCalendar;
+    /**
+     * Кэш статистики по спискам. Если не указан, то статистика каждый раз считается по всем карточкам
+     */
+    public statisticCache: TrebisStatisticCache = null;
 
     protected labels: ITrebisLabel = null;
+    protected rules: TrebisRules = null;
+    protected memberNames: Record<string, string> = null;
+    protected dateParser: TrebisDateParser = null;
+    protected dateParserBoardId: string = null;
 
     public boardId: string = null;
     public thisListId: ITrebisListId = null;
@@ -27,6 +60,7 @@ export class Trebis {
 
     public constructor(key: string = null, token: string = null) {
         this.trello = new TrelloApi();
+        this.calendar = TrebisCalendar.getCalendar();
         this.initKeyToken(key, token);
     }
 
@@ -34,25 +68,44 @@ export class Trebis {
      * Получение названия текущего рабочего пространства
      */
     public static getOrgName(): string {
-        return utils.getLocalStorage(Trebis.SAVED_ORG_NAME) || utils.getLocalStorage('org_name') || Trebis.BASE_ORG_NAME;
+        const org = TrebisSettings.get('org');
+        return org.name || org.detectedName || Trebis.BASE_ORG_NAME;
     }
 
     /**
      * Получение идентификатора текущего рабочего пространства
      */
     public async getOrgId(): Promise<string> {
-        let orgId = utils.getLocalStorage(Trebis.SAVED_ORG_ID);
+        let orgId = TrebisSettings.get('org').id;
         const orgName = Trebis.getOrgName();
         if (!orgId) {
             const org = await this.trello.getOrganizations(orgName);
             if (org) {
                 orgId = org.id;
-                utils.setLocalStorage(Trebis.SAVED_ORG_ID, orgId);
+                TrebisSettings.update((data) => {
+                    data.org.id = orgId;
+                });
             }
         }
         return orgId;
     }
 
+    /**
+     * Создание нового экземпляра с теми же данными авторизации.
+     * Нужен для параллельной работы с несколькими досками, так как экземпляр хранит состояние доски
+     */
+    public clone(): Trebis {
+        const trebis = new Trebis();
+        trebis.trello.key = this.trello.key;
+        trebis.trello.token = this.trello.token;
+        trebis.trello.trelloToken = this.trello.trelloToken;
+        trebis.trello.isSendForApi = this.trello.isSendForApi;
+        trebis.calendar = this.calendar;
+        trebis.memberNames = this.memberNames;
+        trebis.statisticCache = this.statisticCache;
+        return trebis;
+    }
+
     public initKeyToken(key: string = null, token: string = null): void {
         if (key) {
             this.trello.key = key;
@@ -73,8 +126,6 @@ export class Trebis {
                 const isTrebisOrg = org.desc?.toLowerCase()?.match(new RegExp(whiteList.join('|'))) ||
                     org.name.indexOf('_ts') === 0;
                 if (isTrebisOrg) {
-                    utils.setLocalStorage('org_name', org.name);
-                    utils.setLocalStorage(Trebis.SAVED_ORG_ID, org.id);
                     const admins = [];
                     org.memberships.forEach((membership) => {
                         if (members.id === membership.idMember && membership.memberType === 'admin'
@@ -82,9 +133,13 @@ export class Trebis {
                             admins.push(members.username);
                         }
                     });
-                    if (admins.length) {
-                        utils.setLocalStorage('admins', JSON.stringify(admins));
-                    }
+                    TrebisSettings.update((data) => {
+                        data.org.detectedName = org.name;
+                        data.org.id = org.id;
+                        if (admins.length) {
+                            data.org.admins = admins;
+                        }
+                    });
                     return await this.trello.getOrganizations(org.id);
                 }
             }
@@ -92,15 +147,52 @@ export class Trebis {
         return null;
     }
 
+    /**
+     * Получение имен участников текущего рабочего пространства по их идентификатору.
+     * Участники определяются по memberships рабочего пространства, отключенные участники не учитываются.
+     * Результат запоминается в экземпляре, в том числе пустой, если участников получить не удалось
+     */
+    public async getMemberNames(): Promise<Record<string, string>> {
+        if (this.memberNames) {
+            return this.memberNames;
+        }
+        this.memberNames = {};
+        const orgId = await this.getOrgId();
+        if (!orgId) {
+            return this.memberNames;
+        }
+        const [members, orgMembers] = await Promise.all([
+            this.trello.getMembers(),
+            this.trello.getOrgMembers(orgId)
+        ]);
+        if (!orgMembers) {
+            return this.memberNames;
+        }
+        const org = members?.organizations?.find(organization => organization.id === orgId);
+        const activeIds = org?.memberships?.filter(membership => !membership.deactivated)
+            .map(membership => membership.idMember);
+        const memberNames: Record<string, string> = {};
+        orgMembers.forEach((member) => {
+            if (!activeIds || activeIds.includes(member.id)) {
+                memberNames[member.id] = member.username;
+            }
+        });
+        this.memberNames = memberNames;
+        return memberNames;
+    }
+
     public async getOrgBoard(): Promise<ITrelloOrg> {
-        const orgName = utils.getLocalStorage(Trebis.SAVED_ORG_NAME) || utils.getLocalStorage('org_name');
+        const org = TrebisSettings.get('org');
+        const orgName = org.name || org.detectedName;
         if (orgName) {
             return await this.trello.getOrganizations(orgName);
         }
         const boards = await this.trello.getOrganizations(Trebis.BASE_ORG_NAME);
         if (boards) {
-            utils.setLocalStorage('org_name', Trebis.BASE_ORG_NAME);
-            utils.setLocalStorage(Trebis.SAVED_ORG_ID, boards.id);
+            TrebisSettings.update((data) => {
+                data.org.detectedName = Trebis.BASE_ORG_NAME;
+                data.org.id = boards.id;
+            });
             return boards;
         }
         const members = await this.trello.getMembers();
@@ -113,8 +205,7 @@ export class Trebis {
      * @param shortLink
      */
     public async getBoardId(shortLink: string): Promise<string> {
-        const key = `${shortLink}_board-id`;
-        const localBoardId = utils.getLocalStorage(key);
+        const localBoardId = TrebisSettings.getCached<string>('boardIds', shortLink);
         if (localBoardId) {
             this.boardId = localBoardId;
             return localBoardId;
@@ -147,14 +238,49 @@ export class Trebis {
             }
         }
         if (this.boardId) {
-            utils.setLocalStorage(key, this.boardId);
+            TrebisSettings.setCached('boardIds', shortLink, this.boardId);
         }
 
         return this.boardId;
     }
 
-    public async getLists(boardId?: string): Promise<ITrelloListData[]> {
-        return await this.trello.getLists(boardId || this.boardId, {cards: 'open'});
+    /**
+     * Получение списков доски вместе с карточками
+     * @param boardId
+     * @param isLight Получить у карточек только основные поля, без меток. Используется совместно с кэшем статистики,
+     * полные данные карточек затем догружаются через loadCards только для изменившихся списков
+     */
+    public async getLists(boardId?: string, isLight: boolean = false): Promise<ITrelloListData[]> {
+        return await this.trello.getLists(boardId || this.boardId, Trebis.getListsParams(isLight));
+    }
+
+    /**
+     * Параметры для получения списков вместе с карточками
+     * @param isLight
+     */
+    public static getListsParams(isLight: boolean = false): IGetParams {
+        if (isLight) {
+            return {cards: 'open', card_fields: Trebis.LIGHT_CARD_FIELDS};
+        }
+        return {cards: 'open'};
+    }
+
+    /**
+     * Загрузка карточек для списков, у которых они не были получены или получены без меток.
+     * Карточки запрашиваются через batch запрос
+     * @param lists
+     */
+    public async loadCards(lists: ITrelloListData[]): Promise<void> {
+        const isNeedLoad = (list: ITrelloListData) => !list.cards || list.cards.some((card: ITrelloCardData) => !card.labels);
+        const listIds = lists.filter(isNeedLoad).map(list => list.id);
+        if (listIds.length) {
+            const cards = await this.trello.getCardsBatch(listIds);
+            lists.forEach((list) => {
+                if (isNeedLoad(list) && cards[list.id]) {
+                    list.cards = cards[list.id];
+                }
+            });
+        }
     }
 
     protected _getBoardId(methodName): boolean {
@@ -166,25 +292,38 @@ export class Trebis {
     }
 
     /**
-     * Получаем все метки
+     * Получаем все метки.
+     * Метки доступны как по цвету, так и по названию. При совпадении приоритет у цвета.
+     * Если метки доски переданы, то закэшированные метки не используются
      */
-    public async initLabels(trelloLabels?: ITrebisLabel[]): Promise<void> {
-        const key = `${this.boardId}_labels`;
-        const labels = utils.getLocalStorage(key);
+    public async initLabels(trelloLabels?: ITrelloLabel[]): Promise<void> {
+        const labels = trelloLabels ? null : TrebisSettings.getCached<ITrebisLabel>('labels', this.boardId);
         if (labels) {
-            this.labels = JSON.parse(labels)
+            this.labels = labels;
             return;
         }
         if (this._getBoardId('initLabels')) {
             const labels = trelloLabels || await this.trello.getLabels(this.boardId);
             this.labels = {};
+            labels.forEach((label) => {
+                if (label.name && !this.labels[label.name]) {
+                    this.labels[label.name] = label.id;
+                }
+            });
             labels.forEach((label) => {
                 this.labels[label.color] = label.id;
             });
-            utils.setLocalStorage(key, JSON.stringify(this.labels));
+            TrebisSettings.setCached('labels', this.boardId, this.labels);
         }
     }
 
+    /**
+     * Получение меток доски. Метки должны быть проинициализированы через initLabels
+     */
+    public getLabels(): ITrebisLabel {
+        return this.labels || {};
+    }
+
     public async createList(name?: string): Promise<boolean> {
         this.thisListId = null;
         if (this._getBoardId('createList')) {
@@ -203,10 +342,10 @@ export class Trebis {
      * @param name
      */
     public getListId(lists: ITrelloListData[], name: string): ITrebisListId {
-        const parseName: Date = utils.getDate(name);
+        const parseName: Date = this.getListDateByName(name);
         let index = 0;
         for (const list of lists) {
-            const parseListName = utils.getDate(list.name);
+            const parseListName = this.getListDateByName(list.name);
             if (name === list.name ||
                 ((parseListName && parseName) && utils.isEqualDate(parseListName, parseName))) {
                 return {id: list.id, index};
@@ -217,274 +356,565 @@ export class Trebis {
     }
 
     /**
-     * Получаем ид списка для текущей даты. Если списка нет, то создаем его.
-     * Также получаем ид списка с предыдущей даты
+     * Получение парсера дат в названиях списков, настроенного для текущей доски
+     */
+    public getDateParser(): TrebisDateParser {
+        if (!this.dateParser || this.dateParserBoardId !== this.boardId) {
+            this.dateParser = TrebisDateParser.getBoardParser(this.boardId);
+            this.dateParserBoardId = this.boardId;
+        }
+        return this.dateParser;
+    }
+
+    /**
+     * Получение даты по названию списка. Для диапазона дат возвращается последняя дата диапазона
+     * @param name
+     */
+    public getListDateByName(name: string): Date {
+        return TrebisDateParser.getDate(this.getDateParser().parse(name));
+    }
+
+    /**
+     * Получение даты, на которую создается список.
+     * Если сегодня не рабочий день, то список создается на следующий рабочий день
+     */
+    public getListDate(): Date {
+        return this.calendar.getWorkingDay() || new Date();
+    }
+
+    /**
+     * Получение названия списка, который нужно создать
+     */
+    public getListName(): string {
+        return utils.date(this.getListDate().getTime());
+    }
+
+    /**
+     * Получаем ид списка с предыдущего рабочего дня.
      *
-     * При этом для оптимизации, ищем список за последние 25 дней.
+     * При этом для оптимизации, ищем список за последние 25 рабочих дней.
      *
      * @param lists
+     * @param day Дата текущего списка
      * @protected
      */
-    protected async initListId(lists: ITrelloListData[]): Promise<void> {
-        if (!this.thisListId) {
-            this.thisListId = this.getListId(lists, utils.date());
-            if (this.thisListId) {
-                await this.createList();
-            }
-        }
-
-        let day = 1;
+    protected initLastListId(lists: ITrelloListData[], day: Date): void {
+        this.lastListId = null;
+        let count = 0;
         do {
-            const name: string = utils.date(Date.now() - utils.getDayInSec(day));
-            this.lastListId = this.getListId(lists, name);
-            day++;
-            if (day > 25) {
+            day = this.calendar.getPrevWorkingDay(day);
+            if (!day) {
                 break;
             }
-        } while (!this.lastListId);
+            this.lastListId = this.getListId(lists, utils.date(day.getTime()));
+            count++;
+        } while (!this.lastListId && count < 25);
     }
 
     public async createCard(data, labels, copyCardId?: string): Promise<void> {
         const req = await this.trello.copyCard(data, copyCardId);
-        const cardId = req.data.id || null;
+        const cardId = req.data?.id || null;
         if (cardId) {
+            if (copyCardId && this.boardId) {
+                TrebisMetrics.saveCardSource(this.boardId, cardId, copyCardId);
+            }
             for (const label of labels) {
-                await this.trello.addLabels(cardId, label);
+                const res = await this.trello.addLabels(cardId, label);
+                if (!res.status && this.boardId) {
+                    // Скорее всего метка была удалена или пересоздана, поэтому при следующем запуске метки получаем заново
+                    TrebisSettings.invalidate('labels', this.boardId);
+                }
             }
         } else {
             Trebis._logs('CreateCard(): Не удалось создать карточку');
         }
     }
 
-    public async updateCard(trelloLists?: ITrelloListData[]): Promise<number> {
-        if (this._getBoardId('updateCard')) {
-            const lists: ITrelloListData[] = trelloLists || (await this.getLists());
-            await this.initListId(lists);
-            let cardCount = 0;
-
-            if (this.lastListId) {
-                const initCards = async (listId: ITrebisListId): Promise<ITrelloCardData[]> => {
-                    if (listId.index === null) {
-                        return [];
-                    } else if (typeof lists[listId.index] !== 'undefined') {
-                        return lists[listId.index].cards;
-                    } else {
-                        return await this.trello.getCards(listId.id);
-                    }
-                }
-                const thisCards: ITrelloCardData[] = await initCards(this.thisListId);
-                const lastCards: ITrelloCardData[] = await initCards(this.lastListId);
+    /**
+     * Получение названий меток карточки для отображения пользователю
+     * @param card
+     */
+    protected static _getLabelNames(card: ITrelloCardData): string {
+        return (card.labels || []).map(label => label.name || label.color).join(', ');
+    }
 
-                for (let lastCard of lastCards) {
-                    let isUpdatedCard: boolean = false;
-                    const data = {
-                        name: lastCard.name,
-                        desc: lastCard.desc
-                    };
-                    if (data.name) {
-                        const names = data.name.split(' ');
-                        names.forEach((name) => {
-                            if (utils.isLink(name) && !data.desc.includes(name)) {
-                                data.desc = `[Ссылка на задачу](${name})\n${data.desc}`;
-                                isUpdatedCard = true;
-                            }
-                        });
-                    }
-                    if (isUpdatedCard) {
-                        const updateCard = await this.trello.updateCard(lastCard.id, data);
-                        if (updateCard.status && updateCard.data) {
-                            lastCard = updateCard.data;
-                        }
-                    }
-                    let addedCard = true;
-                    let addedLabels: string[] = [];
-                    for (const label of lastCard.labels) {
-                        if (['green', 'blue'].includes(label.color)) {
-                            addedCard = false;
-                            addedLabels = [];
-                            break;
-                        }
-                        if (label.color !== 'red') {
-                            addedLabels.push(label.id);
-                        }
-                    }
-                    if (addedCard) {
-                        let isAdded = true;
-                        for (const thisCard of thisCards) {
-                            if (thisCard.name === lastCard.name) {
-                                isAdded = false;
-                                break;
-                            }
-                        }
-                        if (isAdded) {
-                            const data = {
-                                idList: this.thisListId.id,
-                                name: lastCard.name,
-                                desc: lastCard.desc
-                            };
-                            addedLabels.push(this.labels.yellow);
-                            await this.createCard(data, addedLabels, lastCard.id);
-                            await this.trello.addLabels(lastCard.id, this.labels.red);
-                            cardCount++;
-                        }
+    /**
+     * Составление плана переноса карточек с предыдущего рабочего дня.
+     * Ничего не изменяет в trello, только определяет, что будет сделано с каждой карточкой и почему.
+     * Если не удалось найти список за предыдущий рабочий день, вернется null
+     * @param trelloLists
+     */
+    public async getCarryOverPlan(trelloLists?: ITrelloListData[]): Promise<ITrebisCarryOverPlan> {
+        if (!this._getBoardId('getCarryOverPlan')) {
+            return null;
+        }
+        const lists: ITrelloListData[] = trelloLists || (await this.getLists());
+        const listDate = this.getListDate();
+        const listName = utils.date(listDate.getTime());
+        this.thisListId = this.getListId(lists, listName);
+        this.initLastListId(lists, listDate);
+        this.rules = TrebisRules.getBoardRules(this.boardId);
+
+        if (!this.lastListId) {
+            return null;
+        }
+        const initCards = async (listId: ITrebisListId): Promise<ITrelloCardData[]> => {
+            if (!listId || listId.index === null) {
+                return [];
+            } else if (typeof lists[listId.index] !== 'undefined' && lists[listId.index].cards) {
+                return lists[listId.index].cards;
+            } else {
+                return await this.trello.getCards(listId.id);
+            }
+        }
+        const thisCards: ITrelloCardData[] = await initCards(this.thisListId);
+        const lastCards: ITrelloCardData[] = await initCards(this.lastListId);
+        const plan: ITrebisCarryOverPlan = {
+            listName,
+            thisListId: this.thisListId,
+            lastListId: this.lastListId,
+            lastListName: lists[this.lastListId.index]?.name || null,
+            operations: []
+        };
+
+        for (const lastCard of lastCards) {
+            const data = {
+                name: lastCard.name,
+                desc: lastCard.desc || ''
+            };
+            if (data.name) {
+                const names = data.name.split(' ');
+                names.forEach((name) => {
+                    if (utils.isLink(name) && !data.desc.includes(name)) {
+                        data.desc = `[Ссылка на задачу](${name})\n${data.desc}`;
                     }
-                }
-                return cardCount;
+                });
+            }
+            if (data.desc !== (lastCard.desc || '')) {
+                plan.operations.push({
+                    id: `${lastCard.id}_update`,
+                    type: 'update',
+                    card: lastCard,
+                    reason: 'В описание будет добавлена ссылка на задачу',
+                    data
+                });
+            }
+            const rulesResult = this.rules.evaluate(lastCard, this.labels);
+            if (rulesResult.isDone) {
+                plan.operations.push({
+                    id: `${lastCard.id}_skip`,
+                    type: 'skip',
+                    card: lastCard,
+                    reason: `Задача выполнена (метки: ${Trebis._getLabelNames(lastCard)})`
+                });
+            } else if (thisCards.some(thisCard => thisCard.name === lastCard.name)) {
+                plan.operations.push({
+                    id: `${lastCard.id}_skip`,
+                    type: 'skip',
+                    card: lastCard,
+                    reason: `Карточка уже есть в списке ${listName}`
+                });
             } else {
-                Trebis._logs('updateCard(): Не удалось найти карточку за предыдущий рабочий день');
+                plan.operations.push({
+                    id: `${lastCard.id}_copy`,
+                    type: 'copy',
+                    card: lastCard,
+                    reason: 'Задача не выполнена',
+                    data: {
+                        name: lastCard.name,
+                        desc: data.desc
+                    },
+                    labels: rulesResult.labels,
+                    sourceLabels: rulesResult.sourceLabels
+                });
             }
         }
-        return null;
+        return plan;
     }
 
     /**
-     * Удаление старых списков. Как правильнее сделать не понятно. Поэтому временно оставлю как есть
-     * @param lists
+     * Выполнение плана переноса карточек. Список на текущий день создается, даже если переносить нечего.
+     * Если переданы идентификаторы операций, то выполняются только они.
+     * Возвращает количество перенесенных карточек, либо null, если не удалось создать список
+     * @param plan
+     * @param operationIds
      */
-    public async removeOldLists(lists: ITrelloListData[]): Promise<number> {
-        let day = 30;
-        let count = 0;
-        // todo придумать как сделать сейчас не понятно как корректно отфильтровать и удалять карточки
-        // Сейчас оставляю первые 30 карточек + может быть бага с годами...
-        lists.forEach((list) => {
-            if (day === 0) {
-                this.trello.deleteList(list.id);
-                count++;
+    public async applyCarryOverPlan(plan: ITrebisCarryOverPlan, operationIds: string[] = null): Promise<number> {
+        const operations = plan.operations.filter((operation) => {
+            return operation.type !== 'skip' && (operationIds === null || operationIds.includes(operation.id));
+        });
+        this.thisListId = plan.thisListId;
+        if (!this.thisListId) {
+            if (!(await this.createList(plan.listName))) {
+                return null;
+            }
+        }
+        let cardCount = 0;
+        for (const operation of operations) {
+            if (operation.type === 'update') {
+                await this.trello.updateCard(operation.card.id, operation.data);
             } else {
-                day--;
+                const isUpdated = operations.some(item => item.id === `${operation.card.id}_update`);
+                const data = {
+                    idList: this.thisListId.id,
+                    name: operation.data.name,
+                    desc: isUpdated ? operation.data.desc : operation.card.desc
+                };
+                await this.createCard(data, operation.labels, operation.card.id);
+                for (const label of operation.sourceLabels) {
+                    await this.trello.addLabels(operation.card.id, label);
+                }
+                cardCount++;
             }
+        }
+        return cardCount;
+    }
+
+    /**
+     * Перенос не выполненных карточек с предыдущего рабочего дня
+     * @param trelloLists
+     */
+    public async updateCard(trelloLists?: ITrelloListData[]): Promise<number> {
+        const plan = await this.getCarryOverPlan(trelloLists);
+        if (plan) {
+            return await this.applyCarryOverPlan(plan);
+        }
+        return null;
+    }
+
+    /**
+     * Получение политики хранения списков для доски
+     * @param boardId
+     */
+    public static getRetentionPolicy(boardId: string): ITrebisRetentionPolicy {
+        return {...Trebis.DEFAULT_RETENTION_POLICY, ...(TrebisSettings.get('retention')[boardId] || {})};
+    }
+
+    /**
+     * Сохранение политики хранения списков для доски
+     * @param boardId
+     * @param policy
+     */
+    public static saveRetentionPolicy(boardId: string, policy: ITrebisRetentionPolicy): void {
+        TrebisSettings.update((data) => {
+            data.retention[boardId] = policy;
         });
-        return count;
     }
 
-    private static getCorrectDate(oldDate: Date, thisDate: Date): Date {
-        if (oldDate === null && thisDate === null) {
-            return null;
+    /**
+     * Определение дат всех списков доски с учетом смены года, см. TrebisDateParser.resolve
+     * @param lists
+     */
+    public resolveLists(lists: ITrelloListData[]): ITrebisResolvedLists {
+        // Список на следующий рабочий день может быть создан заранее
+        return this.getDateParser().resolve(lists, TrebisCalendar.addDays(this.getListDate(), 1));
+    }
+
+    /**
+     * Определение дат списков по их названиям. Даты возвращаются в порядке списков.
+     * Для списков, название которых не удалось распознать, возвращается null
+     * @param lists
+     */
+    public resolveListDates(lists: ITrelloListData[]): Date[] {
+        const dates: Record<string, Date> = {};
+        this.resolveLists(lists).lists.forEach(({list, date}) => {
+            dates[list.id] = date;
+        });
+        return lists.map(list => dates[list.id] || null);
+    }
+
+    /**
+     * Получение списков, которые будут скрыты согласно политике хранения
+     * @param lists
+     * @param policy
+     */
+    public getListsForRemove(lists: ITrelloListData[], policy: ITrebisRetentionPolicy): ITrebisRetentionResult {
+        const res: ITrebisRetentionResult = {
+            archive: [],
+            keep: [],
+            unparsed: []
+        };
+        let minDate: Date;
+        if (policy.type === 'date') {
+            minDate = utils.getDate(policy.date || '');
+        } else {
+            minDate = TrebisCalendar.addDays(new Date(), -Math.max(Number(policy.days) || 0, 0));
         }
-        const date: Date = thisDate;
+        if (!minDate) {
+            Trebis._logs('getListsForRemove(): Не удалось определить дату, с которой нужно хранить списки');
+            res.keep = lists.slice();
+            return res;
+        }
+        const dates = this.resolveListDates(lists);
+        lists.forEach((list, index) => {
+            if (dates[index] === null) {
+                res.unparsed.push(list);
+                if (policy.unparsed === 'archive') {
+                    res.archive.push(list);
+                } else {
+                    res.keep.push(list);
+                }
+            } else if (dates[index] < minDate) {
+                res.archive.push(list);
+            } else {
+                res.keep.push(list);
+            }
+        });
+        return res;
+    }
 
-        // @ts-ignore
-        let difference: number = (oldDate - thisDate);
-        difference = difference * (difference < 0 ? (-1) : 1);
-        // Если разница больше чем полгода, то скорей всего пользователь опечатался
-        if (difference >= 15767993085) {
-            date.setFullYear(oldDate.getFullYear());
+    /**
+     * Скрытие старых списков согласно политике хранения.
+     * Возвращает количество скрытых списков и списки, которые не удалось скрыть
+     * @param lists Списки, которые нужно скрыть. Можно получить через getListsForRemove
+     */
+    public async removeOldLists(lists: ITrelloListData[]): Promise<ITrebisRemoveResult> {
+        const res: ITrebisRemoveResult = {
+            count: 0,
+            errors: []
+        };
+        for (const list of lists) {
+            const deleteRes = await this.trello.deleteList(list.id);
+            if (deleteRes.status) {
+                res.count++;
+            } else {
+                res.errors.push(list);
+            }
         }
-        return date;
+        return res;
     }
 
     /**
      * Получение статистики по доске.
+     * Даты всех списков определяются заранее с учетом смены года, в статистику попадают списки с датой из периода.
+     * Пропущенные списки и списки, получившие другую дату, возвращаются в report.
      * Важно чтобы boardId был проинициализирован, иначе будет ошибка
      */
     public async getStatistic(startValue: string, endValue: string,
-                              options: { isSaveOnServer: boolean, boardName: string } = null): Promise<ITrebisStatistic> {
+                              options: ITrebisStatisticOptions = null): Promise<ITrebisStatistic> {
         if (!this._getBoardId('getStatistic')) {
             return null;
         }
-        const lists: ITrelloListData[] = await this.getLists();
-        await this.initLabels();
-        const res = {
+        const lists: ITrelloListData[] = options?.lists || await this.getLists(null, !!this.statisticCache);
+        if (!lists) {
+            return null;
+        }
+        const memberNames = options?.memberNames || await this.getMemberNames();
+        const res: ITrebisStatistic = {
             red: 0,
             yellow: 0,
             blue: 0,
-            green: 0
+            green: 0,
+            members: {},
+            days: {}
         };
-        let isStart = false;
-
-        const startDate: Date = utils.getDate(startValue);
-        const endDate: Date = utils.getDate(endValue);
-        let oldListDate: Date = null;
-        let serverApiData: IServerApiData = {
-            name: null,
-            data: {}
+        const resolved = this.resolveLists(lists);
+        const {startDate, endDate} = Trebis._getPeriod(resolved, startValue, endValue);
+        const isInPeriod = (date: Date) => (!startDate || date >= startDate) && (!endDate || date <= endDate);
+        const periodLists = resolved.lists.filter(item => isInPeriod(item.date));
+        res.report = {
+            skipped: resolved.skipped,
+            redated: resolved.redated.filter(item => isInPeriod(item.date)),
+            outOfOrder: resolved.outOfOrder.filter(item => isInPeriod(item.date))
         };
 
-        for (const list of lists) {
-            let listDate: Date = utils.getDate(list.name);
-            if (oldListDate && listDate) {
-                listDate = Trebis.getCorrectDate(oldListDate, listDate);
-            }
-            if (oldListDate && oldListDate < listDate) {
-                // Если в дате есть год, то все оставляем как есть.
-                // Если год не указан, то по умолчанию ставится текущий год, поэтому вычитаем 1 год
-                if (list.name.split(list.name.includes('.') ? '.' : '-').length < 3) {
-                    listDate.setFullYear(oldListDate.getFullYear() - 1);
-                }
-            }
-            if (list.name === endValue || ((endDate && listDate) && (listDate <= endDate))) {
-                isStart = true;
+        // Статистика по спискам, которые не изменились, берется из кэша. Для остальных списков догружаются карточки
+        const cache = this.statisticCache ? await this.statisticCache.getLists(this.boardId) : {};
+        const signatures = periodLists.map(({list}) => TrebisStatisticCache.getSignature(list));
+        const isCached = (index: number) => cache[periodLists[index].list.id]?.signature === signatures[index];
+        await this.loadCards(periodLists.filter((item, index) => !isCached(index)).map(item => item.list));
+        const cacheItems: ITrebisListStatisticCache[] = [];
+        periodLists.forEach(({list, date}, index) => {
+            let listStatistic: ITrebisStatistic;
+            if (isCached(index)) {
+                listStatistic = cache[list.id].statistic;
+            } else {
+                listStatistic = Trebis.getListStatistic(list, memberNames);
+                cacheItems.push({id: list.id, boardId: this.boardId, signature: signatures[index], statistic: listStatistic});
             }
+            Trebis.addStatistic(res, listStatistic);
+            Trebis.addStatistic(Trebis.getDayStatistic(res.days, date), listStatistic);
+        });
+        if (this.statisticCache && cacheItems.length) {
+            await this.statisticCache.save(cacheItems);
+        }
 
-            if ((startDate && listDate) && (startDate > listDate)) {
-                break;
+        if (options && options.isSaveOnServer && res) {
+            const uploader = StatisticStore.createUploader(this.trello);
+            const serverApiData: IServerApiData = {
+                boardId: this.boardId,
+                name: options.boardName,
+                orgName: Trebis.getOrgName(),
+                orgId: await this.getOrgId(),
+                data: res.days
+            };
+            const uploadResult = await uploader.upload(serverApiData);
+            if (!uploadResult.status) {
+                utils.getLogger().error(`Не удалось сохранить статистику доски «${options.boardName}». ` +
+                    'Статистика будет отправлена повторно при следующем получении статистики');
             }
-            if (isStart) {
-                const cards: ITrelloCardData[] = list.cards || (await this.trello.getCards(list.id));
-                for (const card of cards) {
-                    for (const label of card.labels) {
-                        if (['green', 'blue', 'red', 'yellow'].includes(label.color)) {
-                            res[label.color] += 1;
-                            if (options && options.isSaveOnServer) {
-                                // todo Продумать корректное поведение.
-                                // Если не удалось получить дату, а метки есть, они уходят в никуда...
-                                // Временное решение - смотреть на предыдущую дату если текущую определить не удалось.
-                                let tmpListDate = listDate;
-                                if (!tmpListDate) {
-                                    tmpListDate = oldListDate;
-                                }
-
-                                if (tmpListDate) {
-                                    let listDateYear = serverApiData.data[tmpListDate.getFullYear()];
-                                    if (!listDateYear) {
-                                        listDateYear = {};
-                                    }
-
-                                    let listDateMonth = listDateYear[tmpListDate.getMonth()];
-                                    if (!listDateMonth) {
-                                        listDateMonth = {};
-                                    }
-
-                                    if (!listDateMonth[tmpListDate.getDate()]) {
-                                        listDateMonth[tmpListDate.getDate()] = {
-                                            red: 0,
-                                            blue: 0,
-                                            yellow: 0,
-                                            green: 0
-                                        };
-                                    }
-                                    listDateMonth[tmpListDate.getDate()][label.color] += 1;
-
-                                    listDateYear[tmpListDate.getMonth()] = listDateMonth;
-                                    serverApiData.data[tmpListDate.getFullYear()] = listDateYear;
-                                }
-                                tmpListDate = null;
-                            }
-                        }
-                    }
+        }
+
+        return res;
+    }
+
+    /**
+     * Подсчет статистики по карточкам списка
+     * @param list
+     * @param memberNames
+     */
+    public static getListStatistic(list: ITrelloListData, memberNames: Record<string, string>): ITrebisStatistic {
+        const res: ITrebisStatistic = {
+            red: 0,
+            yellow: 0,
+            blue: 0,
+            green: 0
+        };
+        const cards: ITrelloCardData[] = list.cards || [];
+        for (const card of cards) {
+            for (const label of (card.labels || [])) {
+                if (['green', 'blue', 'red', 'yellow'].includes(label.color)) {
+                    res[label.color] += 1;
+                    Trebis.addMembersStatistic(res, Trebis.getCardMembers(card, memberNames), label.color);
                 }
             }
+        }
+        return res;
+    }
 
-            if (list.name === startValue || ((startDate && listDate) && utils.isEqualDate(startDate, listDate))) {
-                break;
+    /**
+     * Добавление статистики, в том числе статистики по участникам
+     * @param statistic Статистика, к которой добавляются значения
+     * @param value
+     */
+    protected static addStatistic(statistic: ITrebisStatistic, value: ITrebisStatistic): void {
+        ['red', 'yellow', 'blue', 'green'].forEach((color) => {
+            statistic[color] += value[color];
+        });
+        for (const username of Object.keys(value.members || {})) {
+            if (!statistic.members) {
+                statistic.members = {};
+            }
+            if (!statistic.members[username]) {
+                statistic.members[username] = {
+                    red: 0,
+                    yellow: 0,
+                    blue: 0,
+                    green: 0
+                };
             }
-            oldListDate = listDate;
+            Trebis.addStatistic(statistic.members[username], value.members[username]);
         }
+    }
 
-        if (options && options.isSaveOnServer && res) {
-            const serverApi = new ServerApi();
-            serverApiData.name = options.boardName;
-            serverApiData.orgName = Trebis.getOrgName();
-            serverApiData.orgId = await this.getOrgId();
-            await serverApi.save(serverApiData);
-            serverApiData = null;
+    /**
+     * Получение имен участников карточки. Если участник не найден в рабочем пространстве, то используется его идентификатор
+     * @param card
+     * @param memberNames
+     */
+    public static getCardMembers(card: ITrelloCardData, memberNames: Record<string, string>): string[] {
+        return (card.idMembers || []).map((idMember: string) => memberNames[idMember] || idMember);
+    }
+
+    /**
+     * Получение статистики за определенный день. Если статистики за день еще нет, то она создается
+     * @param days
+     * @param date
+     */
+    protected static getDayStatistic(days: ITrebisStatisticDays, date: Date): ITrebisStatistic {
+        const year = days[date.getFullYear()] || (days[date.getFullYear()] = {});
+        const month = year[date.getMonth()] || (year[date.getMonth()] = {});
+        if (!month[date.getDate()]) {
+            month[date.getDate()] = {
+                red: 0,
+                blue: 0,
+                yellow: 0,
+                green: 0
+            };
         }
+        return month[date.getDate()];
+    }
 
-        return res;
+    /**
+     * Увеличение количества меток определенного цвета у участников
+     * @param statistic
+     * @param usernames
+     * @param color
+     */
+    protected static addMembersStatistic(statistic: ITrebisStatistic, usernames: string[], color: string): void {
+        if (!usernames.length) {
+            return;
+        }
+        if (!statistic.members) {
+            statistic.members = {};
+        }
+        usernames.forEach((username) => {
+            if (!statistic.members[username]) {
+                statistic.members[username] = {
+                    red: 0,
+                    yellow: 0,
+                    blue: 0,
+                    green: 0
+                };
+            }
+            statistic.members[username][color] += 1;
+        });
+    }
+
+    /**
+     * Получение статистики по доске вместе с показателями продуктивности.
+     * Списки доски запрашиваются один раз и используются как для статистики, так и для поиска хронических задач
+     * @param startValue
+     * @param endValue
+     * @param options
+     */
+    public async getMetrics(startValue: string, endValue: string,
+                            options: ITrebisStatisticOptions = null): Promise<ITrebisMetricsResult> {
+        if (!this._getBoardId('getMetrics')) {
+            return null;
+        }
+        const lists: ITrelloListData[] = options?.lists || await this.getLists(null, !!this.statisticCache);
+        if (!lists) {
+            return null;
+        }
+        const statistic = await this.getStatistic(startValue, endValue, {...(options || {}), lists});
+        if (!statistic) {
+            return null;
+        }
+        // Границы периода определяются так же, как в getStatistic
+        const resolved = this.resolveLists(lists);
+        const {startDate, endDate} = Trebis._getPeriod(resolved, startValue, endValue);
+        const periodDates: Record<string, Date> = {};
+        resolved.lists.forEach(({list, date}) => {
+            if ((!startDate || date >= startDate) && (!endDate || date <= endDate)) {
+                periodDates[list.id] = date;
+            }
+        });
+        const dates = lists.map(list => periodDates[list.id] || null);
+        const metrics = new TrebisMetrics(this.calendar, TrebisMetrics.getBoardChronicDays(this.boardId));
+        const chronicCards = metrics.getChronicCards(lists, dates, TrebisMetrics.getCardSources(this.boardId),
+            options?.memberNames || await this.getMemberNames());
+        return {
+            statistic,
+            metrics: metrics.getMetrics(statistic, startDate, endDate, chronicCards)
+        };
+    }
+
+    /**
+     * Получение границ периода. Период можно указать как датой, так и названием списка
+     * @param resolved Даты списков доски, см. resolveLists
+     * @param startValue
+     * @param endValue
+     */
+    protected static _getPeriod(resolved: ITrebisResolvedLists, startValue: string,
+                                endValue: string): { startDate: Date, endDate: Date } {
+        const getPeriodDate = (value: string): Date => {
+            return utils.getDate(value) || resolved.lists.find(item => item.list.name === value)?.date || null;
+        };
+        return {startDate: getPeriodDate(startValue), endDate: getPeriodDate(endValue)};
     }
 
     private static _logs(error: string): void {
-        console.warn(error);
-        TrelloUI.errorNotification('Trebis.' + error);
+        utils.getLogger().error('Trebis.' + error);
     }
 }
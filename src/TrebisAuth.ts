@@ -0,0 +1,157 @@
+import {TrebisSettings} from "./TrebisSettings";
+import {ITrebisAuth, TTrebisAuthExpiration, TTrebisAuthScope} from "./interfaces";
+
+/**
+ * Авторизация в trello через /1/authorize.
+ * Авторизация запускается со страницы расширения (auth.html): пользователь указывает ключ приложения,
+ * права и срок действия токена, после чего trello возвращает токен на эту же страницу.
+ * Ключ и токен хранятся в chrome.storage, а не в localStorage trello
+ */
+export class TrebisAuth {
+    public static readonly STORAGE_KEY = 'trebis_auth';
+    public static readonly AUTHORIZE_URL = 'https://trello.com/1/authorize';
+    public static readonly APP_KEY_URL = 'https://trello.com/app-key';
+    public static readonly APP_NAME = 'Trebis';
+    /**
+     * Страница расширения, на которой выполняется авторизация
+     */
+    public static readonly PAGE = 'auth.html';
+    public static readonly SCOPES: Readonly<Record<TTrebisAuthScope, string>> = {
+        'read': 'Только чтение',
+        'read,write': 'Чтение и изменение',
+        'read,write,account': 'Чтение, изменение и данные аккаунта'
+    };
+    public static readonly EXPIRATIONS: Readonly<Record<TTrebisAuthExpiration, string>> = {
+        '1hour': '1 час',
+        '1day': '1 день',
+        '30days': '30 дней',
+        'never': 'Бессрочно'
+    };
+    public static readonly DEFAULT_AUTH: Readonly<ITrebisAuth> = {
+        key: null,
+        token: null,
+        scope: 'read,write',
+        expiration: '30days',
+        date: null
+    };
+    /**
+     * Время действия токена. В мсек.
+     */
+    protected static readonly EXPIRATION_TIME: Readonly<Record<TTrebisAuthExpiration, number>> = {
+        '1hour': 3600 * 1000,
+        '1day': 24 * 3600 * 1000,
+        '30days': 30 * 24 * 3600 * 1000,
+        'never': null
+    };
+
+    /**
+     * Доступен ли chrome.storage. Для работы нужно разрешение storage
+     */
+    public static isSupported(): boolean {
+        return typeof chrome !== 'undefined' && !!chrome.storage?.local;
+    }
+
+    /**
+     * Получение сохраненной авторизации. Ключ и параметры сохраняются и после того, как токен истек или был отозван.
+     * Ключ и токен, сохраненные раньше в localStorage, переносятся в chrome.storage
+     */
+    public static async getAuth(): Promise<ITrebisAuth> {
+        let auth: ITrebisAuth = null;
+        if (TrebisAuth.isSupported()) {
+            auth = (await chrome.storage.local.get(TrebisAuth.STORAGE_KEY))[TrebisAuth.STORAGE_KEY] || null;
+        }
+        const legacy = TrebisSettings.get('auth');
+        if (!auth?.token && legacy?.key && legacy?.token) {
+            // Срок действия токена, введенного вручную, неизвестен
+            auth = {...TrebisAuth.DEFAULT_AUTH, key: legacy.key, token: legacy.token, expiration: 'never', date: Date.now()};
+            if (TrebisAuth.isSupported()) {
+                await TrebisAuth.saveAuth(auth);
+                TrebisSettings.set('auth', null);
+            }
+        }
+        return {...TrebisAuth.DEFAULT_AUTH, ...(auth || {})};
+    }
+
+    /**
+     * Сохранение авторизации
+     * @param auth
+     */
+    public static saveAuth(auth: ITrebisAuth): Promise<void> {
+        return chrome.storage.local.set({[TrebisAuth.STORAGE_KEY]: auth});
+    }
+
+    /**
+     * Удаление токена, который истек или был отозван. Ключ и параметры авторизации остаются
+     */
+    public static async resetToken(): Promise<void> {
+        const auth = await TrebisAuth.getAuth();
+        if (auth.token) {
+            await TrebisAuth.saveAuth({...auth, token: null, date: null});
+        }
+    }
+
+    /**
+     * Есть ли действующий токен
+     * @param auth
+     */
+    public static isValid(auth: ITrebisAuth): boolean {
+        return !!(auth?.key && auth.token) && !TrebisAuth.isExpired(auth);
+    }
+
+    /**
+     * Истек ли срок действия токена
+     * @param auth
+     */
+    public static isExpired(auth: ITrebisAuth): boolean {
+        const time = TrebisAuth.EXPIRATION_TIME[auth.expiration];
+        return !!(time && auth.date) && Date.now() - auth.date >= time;
+    }
+
+    /**
+     * Получение адреса страницы авторизации расширения
+     */
+    public static getPageUrl(): string {
+        return chrome.runtime.getURL(TrebisAuth.PAGE);
+    }
+
+    /**
+     * Получение адреса авторизации trello. После авторизации trello вернет токен на returnUrl в виде #token=...
+     * @param auth
+     * @param returnUrl
+     */
+    public static getAuthorizeUrl(auth: ITrebisAuth, returnUrl: string): string {
+        const params = new URLSearchParams({
+            key: auth.key,
+            name: TrebisAuth.APP_NAME,
+            scope: auth.scope,
+            expiration: auth.expiration,
+            response_type: 'token',
+            callback_method: 'fragment',
+            return_url: returnUrl
+        });
+        return `${TrebisAuth.AUTHORIZE_URL}?${params.toString()}`;
+    }
+
+    /**
+     * Получение токена из адреса, на который trello вернул пользователя после авторизации
+     * @param hash
+     */
+    public static parseToken(hash: string): string {
+        const token = new URLSearchParams((hash || '').replace(/^#/, '')).get('token');
+        return token && /^\w+$/.test(token) ? token : null;
+    }
+
+    /**
+     * Отслеживание изменения авторизации, например при получении токена на странице авторизации
+     * @param cb
+     */
+    public static onChange(cb: (auth: ITrebisAuth) => void): void {
+        if (TrebisAuth.isSupported()) {
+            chrome.storage.onChanged.addListener((changes, areaName) => {
+                if (areaName === 'local' && changes[TrebisAuth.STORAGE_KEY]) {
+                    cb({...TrebisAuth.DEFAULT_AUTH, ...(changes[TrebisAuth.STORAGE_KEY].newValue || {})});
+                }
+            });
+        }
+    }
+}
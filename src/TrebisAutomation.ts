@@ -0,0 +1,275 @@
+import {Trebis} from "./Trebis";
+import {TrebisAuth} from "./TrebisAuth";
+import {TrebisCalendar} from "./TrebisCalendar";
+import {TrebisMetrics} from "./TrebisMetrics";
+import {TrebisMemoryStorage} from "./TrebisMemoryStorage";
+import {TrebisSettings} from "./TrebisSettings";
+import {TREBIS as utils} from "./utils";
+import {ITrebisAutomationBoard, ITrebisAutomationResult, ITrebisAutomationSettings} from "./interfaces";
+
+/**
+ * Автоматический перенос карточек в фоновом service worker расширения.
+ * В рабочие дни в указанное время для выбранных досок выполняется то же, что и при нажатии на кнопку переноса карточек.
+ * В service worker нет localStorage trello, поэтому страница trello копирует документ настроек в chrome.storage,
+ * а фоновый перенос работает с копией в памяти. Связи перенесенных карточек возвращаются на страницу при ее следующем открытии
+ */
+export class TrebisAutomation {
+    public static readonly SETTINGS_KEY = 'trebis_automation';
+    /**
+     * Копия данных trebis для фонового переноса
+     */
+    public static readonly STORAGE_KEY = 'trebis_automation-storage';
+    public static readonly ALARM_NAME = 'trebis_carry-over';
+    /**
+     * Через сколько минут повторяется перенос на досках, где он не удался
+     */
+    public static readonly RETRY_DELAY = 30;
+    /**
+     * Максимальное количество неудачных запусков за день
+     */
+    public static readonly MAX_ATTEMPTS = 3;
+    public static readonly DEFAULT_SETTINGS: Readonly<ITrebisAutomationSettings> = {
+        enabled: false,
+        time: '09:00',
+        boards: [],
+        lastRuns: {},
+        attempts: {date: null, count: 0}
+    };
+
+    /**
+     * Доступны ли api расширения
+     */
+    public static isSupported(): boolean {
+        return typeof chrome !== 'undefined' && !!chrome.storage?.local;
+    }
+
+    /**
+     * Получение настроек автоматического переноса
+     */
+    public static async getSettings(): Promise<ITrebisAutomationSettings> {
+        const settings = (await chrome.storage.local.get(TrebisAutomation.SETTINGS_KEY))[TrebisAutomation.SETTINGS_KEY];
+        return {...TrebisAutomation.DEFAULT_SETTINGS, ...(settings || {})};
+    }
+
+    /**
+     * Сохранение настроек автоматического переноса. Фоновый service worker при этом заново планирует запуск
+     * @param settings
+     */
+    public static saveSettings(settings: ITrebisAutomationSettings): Promise<void> {
+        return chrome.storage.local.set({[TrebisAutomation.SETTINGS_KEY]: settings});
+    }
+
+    /**
+     * Включение или отключение автоматического переноса для доски
+     * @param board
+     * @param isEnabled
+     * @param time Время запуска в формате HH:MM
+     */
+    public static async saveBoard(board: ITrebisAutomationBoard, isEnabled: boolean, time: string): Promise<void> {
+        const settings = await TrebisAutomation.getSettings();
+        settings.boards = settings.boards.filter(item => item.id !== board.id);
+        if (isEnabled) {
+            settings.boards.push(board);
+        }
+        settings.enabled = settings.boards.length > 0;
+        settings.time = TrebisAutomation.isTime(time) ? time : settings.time;
+        await TrebisAutomation.saveSettings(settings);
+    }
+
+    /**
+     * Проверка времени в формате HH:MM
+     * @param time
+     */
+    public static isTime(time: string): boolean {
+        return /^([01]\d|2[0-3]):[0-5]\d$/.test(time || '');
+    }
+
+    /**
+     * Получение ближайшего времени запуска. Если сегодня время уже прошло, то запуск будет завтра
+     * @param time Время в формате HH:MM
+     * @param now
+     */
+    public static getNextRun(time: string, now: Date = new Date()): Date {
+        const [hours, minutes] = time.split(':').map(Number);
+        const date = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+        if (date <= now) {
+            date.setDate(date.getDate() + 1);
+        }
+        return date;
+    }
+
+    /**
+     * Получение досок, на которых сегодня еще нужно выполнить перенос.
+     * После MAX_ATTEMPTS неудачных запусков перенос откладывается до следующего дня
+     * @param settings
+     * @param today Дата в формате d.m.Y
+     */
+    public static getPendingBoards(settings: ITrebisAutomationSettings, today: string): ITrebisAutomationBoard[] {
+        if (!settings.enabled || (settings.attempts.date === today && settings.attempts.count >= TrebisAutomation.MAX_ATTEMPTS)) {
+            return [];
+        }
+        return settings.boards.filter(board => settings.lastRuns[board.id] !== today);
+    }
+
+    /**
+     * Планирование следующего запуска через chrome.alarms. Проверка рабочего дня выполняется при запуске.
+     * Если сегодня перенос на части досок не удался, то он повторяется через RETRY_DELAY минут
+     * @param now
+     */
+    public static async schedule(now: Date = new Date()): Promise<void> {
+        await chrome.alarms.clear(TrebisAutomation.ALARM_NAME);
+        const settings = await TrebisAutomation.getSettings();
+        if (!settings.enabled || !settings.boards.length || !TrebisAutomation.isTime(settings.time)) {
+            return;
+        }
+        const today = utils.date(now.getTime(), true);
+        let when = TrebisAutomation.getNextRun(settings.time, now).getTime();
+        if (settings.attempts.date === today && TrebisAutomation.getPendingBoards(settings, today).length) {
+            when = now.getTime() + TrebisAutomation.RETRY_DELAY * 60 * 1000;
+        }
+        await chrome.alarms.create(TrebisAutomation.ALARM_NAME, {when});
+    }
+
+    /**
+     * Синхронизация данных со страницы trello: связи карточек, перенесенных в фоне, добавляются в localStorage,
+     * а в копию для фонового переноса записывается актуальный документ настроек
+     */
+    public static async syncStorage(): Promise<void> {
+        if (!TrebisAutomation.isSupported()) {
+            return;
+        }
+        const items = await TrebisAutomation._getStorageItems();
+        const sourcesKey = `_${TrebisMetrics.STORAGE_KEY}`;
+        Object.keys(items).forEach((key) => {
+            const name = key.slice(utils.STORAGE_PREFIX.length);
+            if (name.endsWith(sourcesKey)) {
+                const boardId = name.slice(0, -sourcesKey.length);
+                const sources: Record<string, string> = JSON.parse(items[key]);
+                Object.keys(sources).forEach((cardId) => {
+                    TrebisMetrics.saveCardSource(boardId, cardId, sources[cardId]);
+                });
+            }
+        });
+        const settingsKey = `${utils.STORAGE_PREFIX}${TrebisSettings.STORAGE_KEY}`;
+        await chrome.storage.local.set({
+            [TrebisAutomation.STORAGE_KEY]: {[settingsKey]: utils.getStorage().getItem(settingsKey)}
+        });
+    }
+
+    /**
+     * Перенос карточек на выбранных досках. Выполняется только в рабочие дни и не чаще одного раза в день для каждой доски.
+     * Доски, на которых перенос не удался, обрабатываются повторно при следующем запуске
+     * @param now
+     * @return Результат по каждой доске. Если перенос не выполнялся, то пустой массив
+     */
+    public static async run(now: Date = new Date()): Promise<ITrebisAutomationResult[]> {
+        const settings = await TrebisAutomation.getSettings();
+        const today = utils.date(now.getTime(), true);
+        const boards = TrebisAutomation.getPendingBoards(settings, today);
+        if (!boards.length) {
+            return [];
+        }
+        const storage = new TrebisMemoryStorage(await TrebisAutomation._getStorageItems());
+        utils.setStorage(storage);
+        const lastRuns: Record<string, string> = {};
+        settings.boards.forEach((board) => {
+            if (settings.lastRuns[board.id]) {
+                lastRuns[board.id] = settings.lastRuns[board.id];
+            }
+        });
+        if (!TrebisCalendar.getCalendar().isWorkingDay(now)) {
+            boards.forEach(board => lastRuns[board.id] = today);
+            await TrebisAutomation.saveSettings({...settings, lastRuns});
+            return [];
+        }
+        let trebis: Trebis = null;
+        let trebisError = 'Нет токена trello. Авторизуйтесь в настройках trebis';
+        try {
+            trebis = await TrebisAutomation._createTrebis();
+        } catch (e) {
+            trebisError = e?.message || `${e}`;
+        }
+        const results: ITrebisAutomationResult[] = [];
+        for (const board of boards) {
+            if (!trebis) {
+                results.push({board, count: 0, err: trebisError});
+                continue;
+            }
+            // Ошибка на одной доске не должна мешать переносу на остальных досках и сохранению попыток
+            try {
+                results.push(await TrebisAutomation._runBoard(trebis.clone(), board));
+            } catch (e) {
+                results.push({board, count: 0, err: e?.message || `${e}`});
+            }
+        }
+        results.forEach(({board, err}) => {
+            if (!err) {
+                lastRuns[board.id] = today;
+            }
+        });
+        let attempts = settings.attempts;
+        if (results.some(result => result.err)) {
+            attempts = {date: today, count: (attempts.date === today ? attempts.count : 0) + 1};
+        }
+        await chrome.storage.local.set({
+            [TrebisAutomation.SETTINGS_KEY]: {...settings, lastRuns, attempts},
+            [TrebisAutomation.STORAGE_KEY]: storage.toObject()
+        });
+        return results;
+    }
+
+    /**
+     * Получение текста уведомления с результатом переноса
+     * @param results
+     */
+    public static getMessage(results: ITrebisAutomationResult[]): string {
+        return results.map(({board, count, err}) => {
+            return `${board.name}: ${err ? `ошибка. ${err}` : `перенесено карточек: ${count}`}`;
+        }).join('\n');
+    }
+
+    protected static async _getStorageItems(): Promise<Record<string, string>> {
+        return (await chrome.storage.local.get(TrebisAutomation.STORAGE_KEY))[TrebisAutomation.STORAGE_KEY] || {};
+    }
+
+    protected static async _runBoard(trebis: Trebis, board: ITrebisAutomationBoard): Promise<ITrebisAutomationResult> {
+        trebis.boardId = board.id;
+        const lists = await trebis.getLists();
+        if (!lists) {
+            return {board, count: 0, err: 'Не удалось получить списки доски'};
+        }
+        await trebis.initLabels();
+        const plan = await trebis.getCarryOverPlan(lists);
+        if (!plan) {
+            // Переносить нечего, но список на текущий день все равно нужен
+            const listName = trebis.getListName();
+            if (!trebis.thisListId && !(await trebis.createList(listName))) {
+                return {board, count: 0, err: `Не удалось создать список ${listName}`};
+            }
+            return {board, count: 0};
+        }
+        const count = await trebis.applyCarryOverPlan(plan);
+        if (count === null) {
+            return {board, count: 0, err: `Не удалось создать список ${plan.listName}`};
+        }
+        return {board, count};
+    }
+
+    /**
+     * Создание Trebis с токеном api, либо с токеном trello.com из cookie
+     */
+    protected static async _createTrebis(): Promise<Trebis> {
+        const auth = await TrebisAuth.getAuth();
+        if (TrebisAuth.isValid(auth)) {
+            return new Trebis(auth.key, auth.token);
+        }
+        const cookie = await chrome.cookies.get({url: 'https://trello.com', name: 'token'});
+        if (cookie?.value) {
+            const trebis = new Trebis();
+            trebis.trello.isSendForApi = false;
+            trebis.trello.trelloToken = decodeURIComponent(cookie.value);
+            return trebis;
+        }
+        return null;
+    }
+}
@@ -0,0 +1,181 @@
+import {TrelloApi} from "./api/TrelloApi";
+import {TREBIS as utils} from "./utils";
+import {
+    ITrebisBackup,
+    ITrebisBackupCard,
+    ITrebisLabel,
+    ITrebisRestoreResult,
+    ITrelloCardData,
+    ITrelloListData
+} from "./interfaces";
+
+/**
+ * Резервное копирование списков доски.
+ * Позволяет сохранить списки вместе с карточками, метками, описанием и чек-листами, а также восстановить их
+ */
+export class TrebisBackup {
+    public static readonly VERSION = 1;
+
+    public trello: TrelloApi;
+
+    public constructor(trello: TrelloApi) {
+        this.trello = trello;
+    }
+
+    protected static _getCard(card: ITrelloCardData): ITrebisBackupCard {
+        return {
+            id: card.id,
+            name: card.name,
+            desc: card.desc || '',
+            url: card.shortUrl || card.url,
+            due: card.due || null,
+            labels: (card.labels || []).map(label => ({id: label.id, color: label.color, name: label.name || ''})),
+            checklists: (card.checklists || []).map((checklist) => {
+                return {
+                    name: checklist.name,
+                    items: (checklist.checkItems || [])
+                        .sort((a, b) => a.pos - b.pos)
+                        .map(item => ({name: item.name, checked: item.state === 'complete'}))
+                };
+            })
+        };
+    }
+
+    /**
+     * Создание резервной копии списков. Карточки с чек-листами запрашиваются для каждого списка
+     * @param boardId
+     * @param boardName
+     * @param lists
+     */
+    public async create(boardId: string, boardName: string, lists: ITrelloListData[]): Promise<ITrebisBackup> {
+        const backup: ITrebisBackup = {
+            version: TrebisBackup.VERSION,
+            date: Date.now(),
+            boardId,
+            boardName,
+            lists: []
+        };
+        for (const list of lists) {
+            const cards: ITrelloCardData[] = await this.trello.getCards(list.id, {checklists: 'all'});
+            if (!cards) {
+                return null;
+            }
+            backup.lists.push({
+                id: list.id,
+                name: list.name,
+                cards: cards.map(card => TrebisBackup._getCard(card))
+            });
+        }
+        return backup;
+    }
+
+    /**
+     * Преобразование резервной копии в json
+     * @param backup
+     */
+    public static toJson(backup: ITrebisBackup): string {
+        return JSON.stringify(backup, null, 2);
+    }
+
+    /**
+     * Преобразование резервной копии в markdown. Такой формат удобно читать, но из него нельзя восстановить списки
+     * @param backup
+     */
+    public static toMarkdown(backup: ITrebisBackup): string {
+        let res = `# ${backup.boardName || backup.boardId}\n\nРезервная копия от ${utils.date(backup.date, true)}\n`;
+        backup.lists.forEach((list) => {
+            res += `\n## ${list.name}\n`;
+            list.cards.forEach((card) => {
+                res += `\n### ${card.url ? `[${card.name}](${card.url})` : card.name}\n`;
+                if (card.labels.length) {
+                    res += `\nМетки: ${card.labels.map(label => label.name || label.color).join(', ')}\n`;
+                }
+                if (card.desc) {
+                    res += `\n${card.desc}\n`;
+                }
+                card.checklists.forEach((checklist) => {
+                    res += `\n**${checklist.name}**\n\n`;
+                    checklist.items.forEach((item) => {
+                        res += `- [${item.checked ? 'x' : ' '}] ${item.name}\n`;
+                    });
+                });
+            });
+        });
+        return res;
+    }
+
+    /**
+     * Чтение резервной копии из json. Если формат не подходит, вернется null
+     * @param content
+     */
+    public static parse(content: string): ITrebisBackup {
+        try {
+            const backup = JSON.parse(content);
+            if (backup && backup.version && Array.isArray(backup.lists)) {
+                return backup;
+            }
+        } catch (e) {
+            utils.getLogger().warn(e.message);
+        }
+        return null;
+    }
+
+    /**
+     * Восстановление списков из резервной копии. Списки добавляются в конец доски в исходном порядке.
+     * Метки сопоставляются по цвету и названию с метками текущей доски
+     * @param backup
+     * @param boardId
+     * @param labels Метки доски
+     */
+    public async restore(backup: ITrebisBackup, boardId: string, labels: ITrebisLabel): Promise<ITrebisRestoreResult> {
+        const res: ITrebisRestoreResult = {
+            lists: 0,
+            cards: 0,
+            errors: 0
+        };
+        for (const list of backup.lists) {
+            const listRes = await this.trello.addList({idBoard: boardId, name: list.name, pos: 'bottom'});
+            if (!listRes.status || !listRes.data) {
+                res.errors++;
+                continue;
+            }
+            res.lists++;
+            for (const card of list.cards) {
+                const idLabels: string[] = [];
+                card.labels.forEach((label) => {
+                    const labelId = (label.name && labels[label.name]) || labels[label.color];
+                    if (labelId && !idLabels.includes(labelId)) {
+                        idLabels.push(labelId);
+                    }
+                });
+                const cardRes = await this.trello.addCard({
+                    idList: listRes.data.id,
+                    pos: 'bottom',
+                    name: card.name,
+                    desc: card.desc,
+                    due: card.due,
+                    idLabels: idLabels.join(',')
+                });
+                if (!cardRes.status || !cardRes.data) {
+                    res.errors++;
+                    continue;
+                }
+                res.cards++;
+                for (const checklist of card.checklists) {
+                    const checklistRes = await this.trello.addChecklist(cardRes.data.id, checklist.name);
+                    if (!checklistRes.status || !checklistRes.data) {
+                        res.errors++;
+                        continue;
+                    }
+                    for (const item of checklist.items) {
+                        const itemRes = await this.trello.addCheckItem(checklistRes.data.id, item.name, item.checked);
+                        if (!itemRes.status) {
+                            res.errors++;
+                        }
+                    }
+                }
+            }
+        }
+        return res;
+    }
+}
@@ -0,0 +1,280 @@
+import {TREBIS as utils} from "./utils";
+import {TrebisSettings} from "./TrebisSettings";
+import {ITrebisCalendar} from "./interfaces";
+
+/**
+ * Рабочий календарь.
+ * Позволяет определить рабочие дни с учетом выходных, праздников, перенесенных рабочих дней и личных выходных (отпуска).
+ * Все даты хранятся в формате Y-m-d
+ */
+export class TrebisCalendar {
+    /**
+     * Максимальное количество дней, на которое можно сдвинуться в поиске рабочего дня
+     */
+    public static readonly MAX_DAYS = 366;
+    public static readonly DEFAULT_CALENDAR: ITrebisCalendar = {
+        weekDays: [1, 2, 3, 4, 5],
+        holidays: [],
+        workDays: [],
+        daysOff: []
+    };
+
+    public calendar: ITrebisCalendar;
+
+    public constructor(calendar: ITrebisCalendar = null) {
+        const data: ITrebisCalendar = {...TrebisCalendar.DEFAULT_CALENDAR, ...(calendar || {})};
+        this.calendar = {
+            weekDays: [...data.weekDays],
+            holidays: [...data.holidays],
+            workDays: [...data.workDays],
+            daysOff: [...data.daysOff]
+        };
+    }
+
+    /**
+     * Получение сохраненного календаря
+     */
+    public static getCalendar(): TrebisCalendar {
+        return new TrebisCalendar(TrebisSettings.get('calendar'));
+    }
+
+    /**
+     * Сохранение календаря
+     * @param calendar
+     */
+    public static saveCalendar(calendar: ITrebisCalendar): void {
+        TrebisSettings.set('calendar', calendar);
+    }
+
+    /**
+     * Получение ключа даты в формате Y-m-d
+     * @param date
+     */
+    public static getKey(date: Date): string {
+        const correctVal = (val: number): string => {
+            return val < 10 ? `0${val}` : `${val}`;
+        };
+        return `${date.getFullYear()}-${correctVal(date.getMonth() + 1)}-${correctVal(date.getDate())}`;
+    }
+
+    /**
+     * Сдвиг даты на указанное количество дней. Время сбрасывается на начало дня
+     * @param date
+     * @param days
+     */
+    public static addDays(date: Date, days: number): Date {
+        return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+    }
+
+    /**
+     * Преобразование строки с датами в формате d.m.Y, перечисленных через запятую, в список дат Y-m-d.
+     * Поддерживаются диапазоны вида d.m.Y-d.m.Y
+     * @param value
+     */
+    public static parseDays(value: string): string[] {
+        const res: string[] = [];
+        value.split(/[,;\n]/).forEach((item) => {
+            const dates = item.trim().split(/\s*-\s*/).map(date => date ? utils.getDate(date) : null);
+            const start = dates[0];
+            const end = dates[dates.length - 1];
+            if (start && end) {
+                let current = start;
+                while (current <= end) {
+                    const key = TrebisCalendar.getKey(current);
+                    if (!res.includes(key)) {
+                        res.push(key);
+                    }
+                    current = TrebisCalendar.addDays(current, 1);
+                }
+            }
+        });
+        return res.sort();
+    }
+
+    /**
+     * Преобразование списка дат Y-m-d в строку с датами d.m.Y
+     * @param days
+     */
+    public static formatDays(days: string[]): string {
+        return days.slice().sort().map(day => day.split('-').reverse().join('.')).join(', ');
+    }
+
+    /**
+     * Является ли день рабочим
+     * @param date
+     */
+    public isWorkingDay(date: Date): boolean {
+        const key = TrebisCalendar.getKey(date);
+        if (this.calendar.daysOff.includes(key)) {
+            return false;
+        }
+        if (this.calendar.workDays.includes(key)) {
+            return true;
+        }
+        if (this.calendar.holidays.includes(key)) {
+            return false;
+        }
+        return this.calendar.weekDays.includes(date.getDay());
+    }
+
+    /**
+     * Поиск ближайшего рабочего дня в указанном направлении
+     * @param date
+     * @param step Направление поиска: 1 - вперед, -1 - назад
+     * @param isInclude Учитывать ли саму дату
+     */
+    protected _findWorkingDay(date: Date, step: number, isInclude: boolean): Date {
+        let day = isInclude ? 0 : step;
+        for (let i = 0; i < TrebisCalendar.MAX_DAYS; i++) {
+            const current = TrebisCalendar.addDays(date, day);
+            if (this.isWorkingDay(current)) {
+                return current;
+            }
+            day += step;
+        }
+        return null;
+    }
+
+    /**
+     * Получение предыдущего рабочего дня
+     * @param date
+     */
+    public getPrevWorkingDay(date: Date = new Date()): Date {
+        return this._findWorkingDay(date, -1, false);
+    }
+
+    /**
+     * Получение рабочего дня для указанной даты. Если день не рабочий, то возвращается следующий рабочий день
+     * @param date
+     */
+    public getWorkingDay(date: Date = new Date()): Date {
+        return this._findWorkingDay(date, 1, true);
+    }
+
+    /**
+     * Получение последнего рабочего дня, не позже указанной даты
+     * @param date
+     */
+    public getLastWorkingDay(date: Date = new Date()): Date {
+        return this._findWorkingDay(date, -1, true);
+    }
+
+    /**
+     * Количество рабочих дней в периоде, включая границы
+     * @param start
+     * @param end
+     */
+    public getWorkingDaysCount(start: Date, end: Date): number {
+        if (!start || !end) {
+            return 0;
+        }
+        let count = 0;
+        let current = TrebisCalendar.addDays(start, 0);
+        while (current <= end) {
+            if (this.isWorkingDay(current)) {
+                count++;
+            }
+            current = TrebisCalendar.addDays(current, 1);
+        }
+        return count;
+    }
+
+    /**
+     * Импорт праздничных дней.
+     * Поддерживается ics файл, а также json в формате производственного календаря:
+     * {"year": 2023, "months": [{"month": 1, "days": "1,2,3,8*,21+"}]}, где перечислены нерабочие дни,
+     * "*" - сокращенный рабочий день, "+" - перенесенный выходной.
+     * Также поддерживается json вида {"holidays": ["2023-01-01"], "workDays": ["2023-02-25"]}
+     *
+     * Возвращает количество импортированных праздничных дней
+     * @param content
+     */
+    public importHolidays(content: string): number {
+        if (content.includes('BEGIN:VCALENDAR')) {
+            return this._importIcs(content);
+        }
+        const data = JSON.parse(content);
+        let count = 0;
+        const years = Array.isArray(data) ? data : [data];
+        years.forEach((yearData) => {
+            if (yearData.year && yearData.months) {
+                count += this._importProductionCalendar(yearData);
+            } else {
+                (yearData.holidays || []).forEach((day: string) => {
+                    count += this._addDay(this.calendar.holidays, day);
+                });
+                (yearData.workDays || []).forEach((day: string) => {
+                    this._addDay(this.calendar.workDays, day);
+                });
+            }
+        });
+        return count;
+    }
+
+    protected _addDay(days: string[], day: string): number {
+        if (!days.includes(day)) {
+            days.push(day);
+            return 1;
+        }
+        return 0;
+    }
+
+    protected _importProductionCalendar(data: { year: number, months: { month: number, days: string }[] }): number {
+        const year = Number(data.year);
+        const freeDays: string[] = [];
+        const months: number[] = [];
+        data.months.forEach((month) => {
+            months.push(month.month - 1);
+            `${month.days}`.split(',').forEach((day) => {
+                day = day.trim();
+                // Сокращенный день является рабочим
+                if (day && !day.includes('*')) {
+                    freeDays.push(TrebisCalendar.getKey(new Date(year, month.month - 1, parseInt(day, 10))));
+                }
+            });
+        });
+        let count = 0;
+        const weekDays = this.calendar.weekDays;
+        let current = new Date(year, 0, 1);
+        while (current.getFullYear() === year) {
+            if (!months.includes(current.getMonth())) {
+                current = TrebisCalendar.addDays(current, 1);
+                continue;
+            }
+            const key = TrebisCalendar.getKey(current);
+            const isWeekDay = weekDays.includes(current.getDay());
+            if (freeDays.includes(key)) {
+                if (isWeekDay) {
+                    count += this._addDay(this.calendar.holidays, key);
+                }
+            } else if (!isWeekDay) {
+                this._addDay(this.calendar.workDays, key);
+            }
+            current = TrebisCalendar.addDays(current, 1);
+        }
+        return count;
+    }
+
+    protected _importIcs(content: string): number {
+        let count = 0;
+        const parseDate = (value: string): Date => {
+            const match = value.match(/(\d{4})(\d{2})(\d{2})/);
+            return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+        };
+        content.split('BEGIN:VEVENT').slice(1).forEach((event) => {
+            const start = event.match(/DTSTART[^:]*:(\S+)/);
+            const end = event.match(/DTEND[^:]*:(\S+)/);
+            const startDate = start ? parseDate(start[1]) : null;
+            if (startDate) {
+                // В ics дата окончания события не входит в событие
+                const endDate = end ? TrebisCalendar.addDays(parseDate(end[1]) || startDate, -1) : startDate;
+                let current = startDate;
+                do {
+                    count += this._addDay(this.calendar.holidays, TrebisCalendar.getKey(current));
+                    current = TrebisCalendar.addDays(current, 1);
+                } while (current <= endDate);
+            }
+        });
+        return count;
+    }
+}
@@ -0,0 +1,127 @@
+import {TREBIS as utils} from "./utils";
+import {TrebisMetrics} from "./TrebisMetrics";
+import {ITrebisStatisticDay, ITrebisStatisticDays} from "./interfaces";
+
+/**
+ * Построение графика статистики по дням в виде svg.
+ * График рисуется без сторонних библиотек, так как content script не может подключать внешние скрипты.
+ * Для каждого дня выводится столбец из меток всех цветов, а также линия с процентом выполненных задач
+ */
+export class TrebisChart {
+    public static readonly COLORS: Record<string, string> = {
+        green: '#61bd4f',
+        blue: '#0079bf',
+        yellow: '#f2d600',
+        red: '#eb5a46'
+    };
+    public static readonly LINE_COLOR = '#172b4d';
+    /**
+     * Порядок цветов в столбце снизу вверх
+     */
+    protected static readonly STACK = ['green', 'blue', 'yellow', 'red'];
+    protected static readonly BAR_WIDTH = 10;
+    protected static readonly BAR_GAP = 4;
+    protected static readonly HEIGHT = 200;
+    protected static readonly PADDING = {top: 10, right: 40, bottom: 30, left: 30};
+
+    /**
+     * Преобразование статистики по дням в отсортированный по дате список.
+     * Если указан участник, то в список попадает только его статистика
+     * @param days
+     * @param member
+     */
+    public static getSeries(days: ITrebisStatisticDays, member: string = null): ITrebisStatisticDay[] {
+        const res: ITrebisStatisticDay[] = [];
+        for (const year of Object.keys(days || {})) {
+            for (const month of Object.keys(days[year])) {
+                for (const day of Object.keys(days[year][month])) {
+                    const dayStatistic = days[year][month][day];
+                    const statistic = member ? dayStatistic.members?.[member] : dayStatistic;
+                    if (statistic) {
+                        res.push({
+                            date: new Date(Number(year), Number(month), Number(day)),
+                            statistic
+                        });
+                    }
+                }
+            }
+        }
+        return res.sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+
+    /**
+     * Получение svg графика
+     * @param series
+     */
+    public static getSvg(series: ITrebisStatisticDay[]): string {
+        if (!series.length) {
+            return '<p>Нет данных для графика</p>';
+        }
+        const {top, right, bottom, left} = TrebisChart.PADDING;
+        const step = TrebisChart.BAR_WIDTH + TrebisChart.BAR_GAP;
+        const chartHeight = TrebisChart.HEIGHT - top - bottom;
+        const width = Math.max(300, left + right + series.length * step);
+        const maxTotal = Math.max(1, ...series.map(item => TrebisMetrics.getTotal(item.statistic)));
+        // Подписи дат выводятся не для каждого дня, чтобы они не накладывались друг на друга
+        const labelStep = Math.ceil(40 / step);
+
+        let bars = '';
+        let labels = '';
+        const points: string[] = [];
+        series.forEach((item, index) => {
+            const x = left + index * step + TrebisChart.BAR_GAP / 2;
+            const dateText = utils.date(item.date.getTime(), true);
+            let y = top + chartHeight;
+            TrebisChart.STACK.forEach((color) => {
+                const value = item.statistic[color];
+                if (value) {
+                    const height = value / maxTotal * chartHeight;
+                    y -= height;
+                    bars += `<rect x="${x}" y="${y.toFixed(1)}" width="${TrebisChart.BAR_WIDTH}" ` +
+                        `height="${height.toFixed(1)}" fill="${TrebisChart.COLORS[color]}"><title>${dateText}: ${value}</title></rect>`;
+                }
+            });
+            const rate = TrebisMetrics.getCompletionRate(item.statistic);
+            if (rate !== null) {
+                const cx = x + TrebisChart.BAR_WIDTH / 2;
+                const cy = top + chartHeight - rate / 100 * chartHeight;
+                points.push(`${cx},${cy.toFixed(1)}`);
+                bars += `<circle cx="${cx}" cy="${cy.toFixed(1)}" r="2" fill="${TrebisChart.LINE_COLOR}">` +
+                    `<title>${dateText}: выполнено ${rate}%</title></circle>`;
+            }
+            if (index % labelStep === 0) {
+                labels += `<text x="${x}" y="${top + chartHeight + 15}" font-size="10">${dateText.slice(0, 5)}</text>`;
+            }
+        });
+
+        const axisX = width - right;
+        const axis = `<line x1="${left}" y1="${top}" x2="${left}" y2="${top + chartHeight}" stroke="#999"/>` +
+            `<line x1="${left}" y1="${top + chartHeight}" x2="${axisX}" y2="${top + chartHeight}" stroke="#999"/>` +
+            `<line x1="${axisX}" y1="${top}" x2="${axisX}" y2="${top + chartHeight}" stroke="#999"/>` +
+            `<text x="${left - 5}" y="${top + 10}" font-size="10" text-anchor="end">${maxTotal}</text>` +
+            `<text x="${left - 5}" y="${top + chartHeight}" font-size="10" text-anchor="end">0</text>` +
+            `<text x="${axisX + 5}" y="${top + 10}" font-size="10">100%</text>` +
+            `<text x="${axisX + 5}" y="${top + chartHeight}" font-size="10">0%</text>`;
+        const line = points.length > 1 ?
+            `<polyline points="${points.join(' ')}" fill="none" stroke="${TrebisChart.LINE_COLOR}" stroke-width="1.5"/>` : '';
+
+        return '<div style="overflow-x:auto">' +
+            `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${TrebisChart.HEIGHT}" ` +
+            `viewBox="0 0 ${width} ${TrebisChart.HEIGHT}">${axis}${bars}${line}${labels}</svg></div>` +
+            TrebisChart.getLegend();
+    }
+
+    protected static getLegend(): string {
+        const item = (color: string, text: string) => {
+            return `<span style="margin-right:10px"><span style="display:inline-block;width:10px;height:10px;` +
+                `background:${color};margin-right:3px"></span>${text}</span>`;
+        };
+        return '<div style="font-size:12px">' +
+            item(TrebisChart.COLORS.red, 'Не выполнено') +
+            item(TrebisChart.COLORS.yellow, 'Перенесено') +
+            item(TrebisChart.COLORS.green, 'Выполнено') +
+            item(TrebisChart.COLORS.blue, 'Выполнено вне плана') +
+            item(TrebisChart.LINE_COLOR, '% выполненных') +
+            '</div>';
+    }
+}
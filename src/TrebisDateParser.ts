@@ -0,0 +1,340 @@
+import {TrebisSettings} from "./TrebisSettings";
+import {
+    ITrebisDateCheckResult,
+    ITrebisResolvedLists,
+    ITrelloListData,
+    TDateParserError,
+    TDateParserPattern,
+    TTrebisParsedDate
+} from "./interfaces";
+
+/**
+ * Разобранная дата до проверки ее корректности
+ */
+interface IDateParts {
+    pattern: TDateParserPattern;
+    day: number;
+    month: number;
+    /**
+     * Год, если он указан
+     */
+    year: number;
+}
+
+/**
+ * Определение дат по названиям списков.
+ * Форматы дат настраиваются для каждой доски. Результат - дата, диапазон дат или причина, по которой дату определить не удалось
+ */
+export class TrebisDateParser {
+    /**
+     * Форматы дат с примерами
+     */
+    public static readonly PATTERNS: Readonly<Record<TDateParserPattern, string>> = {
+        'dd.mm': '21.03',
+        'dd.mm.yy': '21.03.24, 21.03.2024',
+        'iso': '2024-03-21',
+        'weekday': 'Пн 21.03',
+        'week': 'Неделя 12'
+    };
+    public static readonly DEFAULT_PATTERNS: TDateParserPattern[] = ['dd.mm', 'dd.mm.yy', 'iso', 'weekday', 'week'];
+    public static readonly ERRORS: Readonly<Record<TDateParserError, string>> = {
+        'empty': 'Пустое название',
+        'no-date': 'Название не похоже на дату',
+        'disabled': 'Формат даты отключен в настройках доски',
+        'invalid': 'Несуществующая дата'
+    };
+    /**
+     * Дни недели, начиная с воскресенья
+     */
+    protected static readonly WEEK_DAYS = [
+        ['вс', 'воскресенье'], ['пн', 'понедельник'], ['вт', 'вторник'], ['ср', 'среда'],
+        ['чт', 'четверг'], ['пт', 'пятница'], ['сб', 'суббота']
+    ];
+    protected static readonly WEEK = 7 * 24 * 3600 * 1000;
+    /**
+     * Наибольший промежуток между високосными годами
+     */
+    protected static readonly LEAP_YEARS = 8;
+    protected static readonly DATE = '\\d{1,2}[.,/]\\d{1,2}(?:[.,/]\\d{2,4})?|\\d{4}-\\d{1,2}-\\d{1,2}';
+
+    /**
+     * Включенные форматы дат
+     */
+    public patterns: TDateParserPattern[];
+    /**
+     * Год, который используется, если в названии год не указан
+     */
+    public year: number;
+
+    public constructor(patterns: TDateParserPattern[] = null, year: number = null) {
+        this.patterns = patterns?.length ? patterns : TrebisDateParser.DEFAULT_PATTERNS;
+        this.year = year || new Date().getFullYear();
+    }
+
+    /**
+     * Получение настроенного для доски парсера
+     * @param boardId
+     */
+    public static getBoardParser(boardId: string): TrebisDateParser {
+        return new TrebisDateParser(TrebisSettings.get('datePatterns')[boardId]);
+    }
+
+    /**
+     * Сохранение форматов дат для доски
+     * @param boardId
+     * @param patterns
+     */
+    public static saveBoardPatterns(boardId: string, patterns: TDateParserPattern[]): void {
+        TrebisSettings.update((data) => {
+            data.datePatterns[boardId] = patterns;
+        });
+    }
+
+    /**
+     * Получение даты из результата разбора. Для диапазона возвращается последняя дата диапазона
+     * @param result
+     */
+    public static getDate(result: TTrebisParsedDate): Date {
+        switch (result.type) {
+            case 'date':
+                return result.date;
+            case 'range':
+                return result.end;
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Разбор названия списка
+     * @param name
+     */
+    public parse(name: string): TTrebisParsedDate {
+        let text = (name || '').trim().toLowerCase();
+        if (!text) {
+            return {type: 'unparsed', reason: 'empty'};
+        }
+        let weekDay: number = null;
+        const weekDayMatch = text.match(/^([а-яё]+)\.?,?\s+(?=\d)/);
+        const weekDayIndex = weekDayMatch ? TrebisDateParser.WEEK_DAYS.findIndex(names => names.includes(weekDayMatch[1])) : -1;
+        if (weekDayIndex !== -1) {
+            weekDay = weekDayIndex;
+            text = text.slice(weekDayMatch[0].length);
+        }
+
+        const weekMatch = weekDay === null && (text.match(/^(?:неделя|нед\.?)\s*№?\s*(\d{1,2})(?:\s*[.,/]?\s*(\d{4}))?$/) ||
+            text.match(/^(\d{1,2})\s*(?:-?я)?\s*неделя(?:\s+(\d{4}))?$/));
+        if (weekMatch) {
+            return this._getWeek(Number(weekMatch[1]), weekMatch[2] ? Number(weekMatch[2]) : null);
+        }
+
+        const rangeMatch = text.match(new RegExp(`^(${TrebisDateParser.DATE})\\s*[-–—]\\s*(${TrebisDateParser.DATE})$`));
+        if (rangeMatch) {
+            const start = TrebisDateParser._parseParts(rangeMatch[1]);
+            const end = TrebisDateParser._parseParts(rangeMatch[2]);
+            if (start && end) {
+                return this._getRange(start, end, weekDay);
+            }
+        }
+        const parts = TrebisDateParser._parseParts(text);
+        if (!parts) {
+            return {type: 'unparsed', reason: 'no-date'};
+        }
+        const pattern = weekDay === null ? parts.pattern : 'weekday';
+        if (!this.patterns.includes(pattern)) {
+            return {type: 'unparsed', reason: 'disabled'};
+        }
+        const date = this._getDate(parts);
+        if (!date) {
+            return {type: 'unparsed', reason: 'invalid'};
+        }
+        const res: TTrebisParsedDate = {type: 'date', date, pattern, hasYear: parts.year !== null};
+        if (weekDay !== null && date.getDay() !== weekDay) {
+            res.warning = `День недели не совпадает с датой: ${TrebisDateParser.WEEK_DAYS[date.getDay()][0]}`;
+        }
+        return res;
+    }
+
+    /**
+     * Проверка названий списков доски: списки, название которых не удалось распознать,
+     * списки, идущие не по порядку (списки должны идти от новых к старым), и списки с одинаковой датой
+     * @param lists
+     */
+    public check(lists: ITrelloListData[]): ITrebisDateCheckResult {
+        const resolved = this.resolve(lists);
+        const warnings: ITrebisDateCheckResult['warnings'] = [];
+        lists.forEach((list) => {
+            const result = this.parse(list.name);
+            if (result.type !== 'unparsed' && result.warning) {
+                warnings.push({list, warning: result.warning});
+            }
+        });
+        return {unparsed: resolved.skipped, outOfOrder: resolved.outOfOrder, duplicates: resolved.duplicates, warnings};
+    }
+
+    /**
+     * Определение дат всех списков доски с учетом смены года.
+     * Если год в названии не указан, то выбирается год, при котором дата ближе всего к дате предыдущего списка
+     * (для первого списка - к maxDate). Дата без года не может быть больше maxDate.
+     * Списки с датой сортируются по дате от новых к старым, поэтому списки не по порядку учитываются по своей дате
+     * @param lists Списки в порядке расположения на доске
+     * @param maxDate Максимальная дата списка. Если не указана, то текущая дата
+     */
+    public resolve(lists: ITrelloListData[], maxDate: Date = null): ITrebisResolvedLists {
+        const res: ITrebisResolvedLists = {lists: [], skipped: [], redated: [], outOfOrder: [], duplicates: []};
+        const max = maxDate || new Date();
+        let previous: { list: ITrelloListData, date: Date } = null;
+        lists.forEach((list) => {
+            const result = this.parse(list.name);
+            if (result.type === 'unparsed') {
+                res.skipped.push({list, reason: result.reason});
+                return;
+            }
+            let date = new Date(TrebisDateParser.getDate(result));
+            if (!result.hasYear) {
+                date = TrebisDateParser._alignYear(date, previous ? previous.date : max, max);
+                if (date.getFullYear() !== this.year) {
+                    res.redated.push({list, date});
+                }
+            }
+            if (previous && date.getTime() === previous.date.getTime()) {
+                res.duplicates.push({list, date});
+            } else if (previous && date > previous.date) {
+                res.outOfOrder.push({list, date, previous: previous.list});
+            }
+            res.lists.push({list, date});
+            previous = {list, date};
+        });
+        res.lists.sort((item1, item2) => item2.date.getTime() - item1.date.getTime());
+        return res;
+    }
+
+    /**
+     * Выбор года, при котором дата ближе всего к дате соседнего списка и не больше maxDate.
+     * Дата должна существовать в выбранном году, поэтому 29.02 относится к ближайшему високосному году
+     * @param date
+     * @param nearDate
+     * @param maxDate
+     */
+    protected static _alignYear(date: Date, nearDate: Date, maxDate: Date): Date {
+        let res: Date = null;
+        for (let year = nearDate.getFullYear() - TrebisDateParser.LEAP_YEARS; year <= nearDate.getFullYear() + 1; year++) {
+            const candidate = TrebisDateParser._setYear(date, year);
+            if (candidate && candidate <= maxDate && (!res ||
+                Math.abs(candidate.getTime() - nearDate.getTime()) < Math.abs(res.getTime() - nearDate.getTime()))) {
+                res = candidate;
+            }
+        }
+        return res || date;
+    }
+
+    /**
+     * Получение той же даты в другом году. Если в этом году такой даты нет (29.02), то null
+     * @param date
+     * @param year
+     */
+    protected static _setYear(date: Date, year: number): Date {
+        const res = new Date(year, date.getMonth(), date.getDate());
+        return res.getMonth() === date.getMonth() ? res : null;
+    }
+
+    /**
+     * Разбор одной даты без дня недели
+     * @param text
+     */
+    protected static _parseParts(text: string): IDateParts {
+        let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+        if (match) {
+            return {pattern: 'iso', day: Number(match[3]), month: Number(match[2]), year: Number(match[1])};
+        }
+        match = text.match(/^(\d{1,2})[.,/-](\d{1,2})[.,/-](\d{2}|\d{4})$/);
+        if (match) {
+            const year = Number(match[3]);
+            return {pattern: 'dd.mm.yy', day: Number(match[1]), month: Number(match[2]), year: year < 100 ? 2000 + year : year};
+        }
+        match = text.match(/^(\d{1,2})[.,/-](\d{1,2})$/);
+        if (match) {
+            return {pattern: 'dd.mm', day: Number(match[1]), month: Number(match[2]), year: null};
+        }
+        return null;
+    }
+
+    /**
+     * Получение даты. Если дата не существует (например 31.02), то null.
+     * Если год не указан, то используется this.year, а для 29.02 - ближайший предыдущий високосный год
+     * @param parts
+     */
+    protected _getDate(parts: IDateParts): Date {
+        if (parts.year !== null) {
+            return TrebisDateParser._createDate(parts.year, parts.month, parts.day);
+        }
+        for (let year = this.year; year > this.year - TrebisDateParser.LEAP_YEARS; year--) {
+            const date = TrebisDateParser._createDate(year, parts.month, parts.day);
+            if (date) {
+                return date;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Создание даты с проверкой, что она существует
+     * @param year
+     * @param month
+     * @param day
+     */
+    protected static _createDate(year: number, month: number, day: number): Date {
+        const date = new Date(year, month - 1, day);
+        if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+            return null;
+        }
+        return date;
+    }
+
+    protected _getRange(startParts: IDateParts, endParts: IDateParts, weekDay: number): TTrebisParsedDate {
+        const pattern = weekDay === null ? endParts.pattern : 'weekday';
+        if (!this.patterns.includes(pattern)) {
+            return {type: 'unparsed', reason: 'disabled'};
+        }
+        const hasYear = startParts.year !== null || endParts.year !== null;
+        const end = this._getDate({...endParts, year: endParts.year ?? startParts.year});
+        const start = this._getDate({...startParts, year: startParts.year ?? end?.getFullYear() ?? null});
+        if (!start || !end) {
+            return {type: 'unparsed', reason: 'invalid'};
+        }
+        // Диапазон на стыке годов, например 28.12-03.01.2024 или 28.12.2023-03.01
+        if (start > end && startParts.year === null) {
+            start.setFullYear(start.getFullYear() - 1);
+        } else if (start > end && endParts.year === null) {
+            end.setFullYear(end.getFullYear() + 1);
+        }
+        if (start > end) {
+            return {type: 'unparsed', reason: 'invalid'};
+        }
+        return {type: 'range', start, end, pattern, hasYear};
+    }
+
+    /**
+     * Получение диапазона дат по номеру недели (ISO 8601): с понедельника по воскресенье
+     * @param week
+     * @param year
+     */
+    protected _getWeek(week: number, year: number): TTrebisParsedDate {
+        if (!this.patterns.includes('week')) {
+            return {type: 'unparsed', reason: 'disabled'};
+        }
+        const weekYear = year || this.year;
+        // 4 января всегда находится в первой неделе года, а 28 декабря - в последней
+        const getMonday = (date: Date) => date.getDate() - (date.getDay() + 6) % 7;
+        const firstMonday = getMonday(new Date(weekYear, 0, 4));
+        const lastMonday = new Date(weekYear, 11, getMonday(new Date(weekYear, 11, 28)));
+        const weeksCount = Math.round((lastMonday.getTime() - new Date(weekYear, 0, firstMonday).getTime()) /
+            TrebisDateParser.WEEK) + 1;
+        if (week < 1 || week > weeksCount) {
+            return {type: 'unparsed', reason: 'invalid'};
+        }
+        const start = new Date(weekYear, 0, firstMonday + (week - 1) * 7);
+        const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 6);
+        return {type: 'range', start, end, pattern: 'week', hasYear: !!year};
+    }
+}
@@ -0,0 +1,181 @@
+import {TREBIS as utils} from "./utils";
+import {ZipWriter} from "./ZipWriter";
+import {TrebisChart} from "./TrebisChart";
+import {TrebisMetrics} from "./TrebisMetrics";
+import {IDateRange, ITrebisExportSheet, ITrebisStatistic, TExportCell} from "./interfaces";
+
+/**
+ * Выгрузка статистики в csv и xlsx.
+ * Данные представлены в виде листов: для каждой доски отдельный лист.
+ * Xlsx файл формируется на стороне клиента, без обращения к сети
+ */
+export class TrebisExport {
+    public static readonly HEADER: string[] = ['', 'Не выполнено', 'Перенесено', 'Выполнено', 'Выполнено вне плана', 'Всего'];
+    /**
+     * Разделитель в csv. Используется ";", так как excel с русской локалью ожидает именно его
+     */
+    public static readonly CSV_SEPARATOR = ';';
+    protected static readonly MAX_SHEET_NAME = 31;
+
+    /**
+     * Получение строки со статистикой
+     * @param title
+     * @param statistic
+     */
+    public static getStatisticRow(title: string, statistic: ITrebisStatistic): TExportCell[] {
+        return [title, statistic.red, statistic.yellow, statistic.green, statistic.blue, TrebisMetrics.getTotal(statistic)];
+    }
+
+    /**
+     * Получение листа со статистикой по доске: статистика за каждый день, итог и статистика по участникам
+     * @param name
+     * @param statistic
+     */
+    public static getStatisticSheet(name: string, statistic: ITrebisStatistic): ITrebisExportSheet {
+        const rows: TExportCell[][] = [['Дата', ...TrebisExport.HEADER.slice(1)]];
+        TrebisChart.getSeries(statistic.days).forEach((item) => {
+            rows.push(TrebisExport.getStatisticRow(utils.date(item.date.getTime(), true), item.statistic));
+        });
+        rows.push(TrebisExport.getStatisticRow('Итог', statistic));
+        const members = Object.keys(statistic.members || {}).sort();
+        if (members.length) {
+            rows.push([], ['Участник', ...TrebisExport.HEADER.slice(1)]);
+            members.forEach((username) => {
+                rows.push(TrebisExport.getStatisticRow(username, statistic.members[username]));
+            });
+        }
+        return {name, rows};
+    }
+
+    /**
+     * Получение листа со сравнением периодов: статистика за каждый период и изменение относительно предыдущего
+     * @param name
+     * @param periods Периоды от более старого к более новому
+     * @param statistics Статистика за каждый период
+     */
+    public static getComparisonSheet(name: string, periods: IDateRange[], statistics: ITrebisStatistic[]): ITrebisExportSheet {
+        const rows: TExportCell[][] = [['Период', ...TrebisExport.HEADER.slice(1)]];
+        periods.forEach((period, index) => {
+            rows.push(TrebisExport.getStatisticRow(period.title, statistics[index]));
+        });
+        rows.push([], ['Изменение', 'Не выполнено', '%', 'Перенесено', '%', 'Выполнено', '%', 'Выполнено вне плана', '%']);
+        for (let i = 1; i < periods.length; i++) {
+            const delta = TrebisMetrics.getDelta(statistics[i - 1], statistics[i]);
+            const row: TExportCell[] = [`${periods[i - 1].title} - ${periods[i].title}`];
+            ['red', 'yellow', 'green', 'blue'].forEach((color) => {
+                row.push(delta[color].diff, delta[color].percent);
+            });
+            rows.push(row);
+        }
+        return {name, rows};
+    }
+
+    /**
+     * Преобразование листов в csv. Листы выводятся друг за другом, перед каждым листом указывается его название
+     * @param sheets
+     */
+    public static toCsv(sheets: ITrebisExportSheet[]): string {
+        const cell = (value: TExportCell): string => {
+            const text = value === null || value === undefined ? '' : `${value}`;
+            return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+        };
+        const lines: string[] = [];
+        sheets.forEach((sheet, index) => {
+            if (index) {
+                lines.push('');
+            }
+            lines.push(cell(sheet.name));
+            sheet.rows.forEach((row) => {
+                lines.push(row.map(cell).join(TrebisExport.CSV_SEPARATOR));
+            });
+        });
+        // BOM нужен, чтобы excel корректно определил кодировку
+        return '\ufeff' + lines.join('\r\n');
+    }
+
+    /**
+     * Преобразование листов в xlsx файл
+     * @param sheets
+     */
+    public static toXlsx(sheets: ITrebisExportSheet[]): Uint8Array {
+        const names = TrebisExport._getSheetNames(sheets);
+        const zip = new ZipWriter();
+        const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+        const ns = 'http://schemas.openxmlformats.org';
+        zip.addFile('[Content_Types].xml', xml +
+            `<Types xmlns="${ns}/package/2006/content-types">` +
+            '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+            '<Default Extension="xml" ContentType="application/xml"/>' +
+            '<Override PartName="/xl/workbook.xml" ' +
+            'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+            names.map((name, index) => `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ` +
+                'ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>').join('') +
+            '</Types>');
+        zip.addFile('_rels/.rels', xml +
+            `<Relationships xmlns="${ns}/package/2006/relationships">` +
+            `<Relationship Id="rId1" Type="${ns}/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+            '</Relationships>');
+        zip.addFile('xl/workbook.xml', xml +
+            `<workbook xmlns="${ns}/spreadsheetml/2006/main" xmlns:r="${ns}/officeDocument/2006/relationships"><sheets>` +
+            names.map((name, index) => `<sheet name="${utils.escapeHtml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+                .join('') +
+            '</sheets></workbook>');
+        zip.addFile('xl/_rels/workbook.xml.rels', xml +
+            `<Relationships xmlns="${ns}/package/2006/relationships">` +
+            names.map((name, index) => `<Relationship Id="rId${index + 1}" ` +
+                `Type="${ns}/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`).join('') +
+            '</Relationships>');
+        sheets.forEach((sheet, index) => {
+            zip.addFile(`xl/worksheets/sheet${index + 1}.xml`, xml +
+                `<worksheet xmlns="${ns}/spreadsheetml/2006/main"><sheetData>` +
+                sheet.rows.map((row, rowIndex) => TrebisExport._getXlsxRow(row, rowIndex + 1)).join('') +
+                '</sheetData></worksheet>');
+        });
+        return zip.toUint8Array();
+    }
+
+    protected static _getXlsxRow(row: TExportCell[], rowNumber: number): string {
+        const cells = row.map((value, index) => {
+            const ref = `${TrebisExport._getColumnName(index)}${rowNumber}`;
+            if (typeof value === 'number') {
+                return `<c r="${ref}"><v>${value}</v></c>`;
+            }
+            if (value === null || value === undefined || value === '') {
+                return '';
+            }
+            return `<c r="${ref}" t="inlineStr"><is><t>${utils.escapeHtml(value)}</t></is></c>`;
+        });
+        return `<row r="${rowNumber}">${cells.join('')}</row>`;
+    }
+
+    protected static _getColumnName(index: number): string {
+        let name = '';
+        index++;
+        while (index > 0) {
+            const mod = (index - 1) % 26;
+            name = String.fromCharCode(65 + mod) + name;
+            index = Math.floor((index - mod) / 26);
+        }
+        return name;
+    }
+
+    /**
+     * Получение названий листов с учетом ограничений excel: не больше 31 символа,
+     * без символов []:*?/\ и без повторений
+     * @param sheets
+     */
+    protected static _getSheetNames(sheets: ITrebisExportSheet[]): string[] {
+        const names: string[] = [];
+        sheets.forEach((sheet, index) => {
+            const base = (sheet.name || '').replace(/[\[\]:*?\/\\]/g, ' ').trim() || `Лист ${index + 1}`;
+            let name = base.slice(0, TrebisExport.MAX_SHEET_NAME);
+            let count = 2;
+            while (names.some(item => item.toLowerCase() === name.toLowerCase())) {
+                const suffix = ` (${count++})`;
+                name = base.slice(0, TrebisExport.MAX_SHEET_NAME - suffix.length) + suffix;
+            }
+            names.push(name);
+        });
+        return names;
+    }
+}
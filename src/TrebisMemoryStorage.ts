@@ -0,0 +1,40 @@
+import {ITrebisStorage} from "./interfaces";
+
+/**
+ * Хранилище в памяти с интерфейсом localStorage.
+ * Используется там, где localStorage недоступен, например в фоновом service worker расширения
+ */
+export class TrebisMemoryStorage implements ITrebisStorage {
+    protected _items: Map<string, string>;
+
+    public constructor(items: Record<string, string> = {}) {
+        this._items = new Map(Object.entries(items));
+    }
+
+    public get length(): number {
+        return this._items.size;
+    }
+
+    public getItem(key: string): string | null {
+        return this._items.has(key) ? this._items.get(key) : null;
+    }
+
+    public setItem(key: string, value: string): void {
+        this._items.set(key, `${value}`);
+    }
+
+    public removeItem(key: string): void {
+        this._items.delete(key);
+    }
+
+    public key(index: number): string | null {
+        return Array.from(this._items.keys())[index] ?? null;
+    }
+
+    /**
+     * Получение всех сохраненных значений
+     */
+    public toObject(): Record<string, string> {
+        return Object.fromEntries(this._items);
+    }
+}
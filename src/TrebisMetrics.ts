@@ -0,0 +1,233 @@
+import {TREBIS as utils} from "./utils";
+import {TrebisCalendar} from "./TrebisCalendar";
+import {TrebisSettings} from "./TrebisSettings";
+import {
+    ITrebisChronicCard,
+    ITrebisDelta,
+    ITrebisMetrics,
+    ITrebisStatistic,
+    ITrebisStatisticDelta,
+    ITrelloCardData,
+    ITrelloListData
+} from "./interfaces";
+
+/**
+ * Показатели продуктивности, рассчитываемые на основе статистики:
+ * процент выполненных и перенесенных задач, среднее количество задач за рабочий день,
+ * а также задачи, которые переносятся изо дня в день
+ */
+export class TrebisMetrics {
+    public static readonly STORAGE_KEY = 'card-sources';
+    /**
+     * Максимальное количество сохраненных связей между карточкой и ее копией
+     */
+    public static readonly MAX_SOURCES = 2000;
+    /**
+     * Задача считается хронической, если переносится больше указанного количества дней подряд
+     */
+    public static readonly DEFAULT_CHRONIC_DAYS = 3;
+
+    public calendar: TrebisCalendar;
+    public chronicDays: number;
+
+    public constructor(calendar: TrebisCalendar, chronicDays: number = TrebisMetrics.DEFAULT_CHRONIC_DAYS) {
+        this.calendar = calendar;
+        this.chronicDays = chronicDays;
+    }
+
+    /**
+     * Получение количества дней, после которых задача на доске считается хронической
+     * @param boardId
+     */
+    public static getBoardChronicDays(boardId: string): number {
+        return TrebisSettings.get('chronicDays')[boardId] || TrebisMetrics.DEFAULT_CHRONIC_DAYS;
+    }
+
+    /**
+     * Сохранение количества дней, после которых задача на доске считается хронической
+     * @param boardId
+     * @param days
+     */
+    public static saveBoardChronicDays(boardId: string, days: number): void {
+        TrebisSettings.update((data) => {
+            data.chronicDays[boardId] = days;
+        });
+    }
+
+    /**
+     * Получение связей между карточками и карточками, из которых они были скопированы
+     * @param boardId
+     * @return Идентификатор исходной карточки по идентификатору копии
+     */
+    public static getCardSources(boardId: string): Record<string, string> {
+        const sources = utils.getLocalStorage(`${boardId}_${TrebisMetrics.STORAGE_KEY}`);
+        if (sources) {
+            try {
+                return JSON.parse(sources);
+            } catch (e) {
+                utils.getLogger().warn(e.message);
+            }
+        }
+        return {};
+    }
+
+    /**
+     * Сохранение связи между копией карточки и исходной карточкой.
+     * Хранятся только последние MAX_SOURCES связей
+     * @param boardId
+     * @param cardId
+     * @param sourceId
+     */
+    public static saveCardSource(boardId: string, cardId: string, sourceId: string): void {
+        const sources = TrebisMetrics.getCardSources(boardId);
+        sources[cardId] = sourceId;
+        const keys = Object.keys(sources);
+        keys.slice(0, Math.max(0, keys.length - TrebisMetrics.MAX_SOURCES)).forEach((key) => {
+            delete sources[key];
+        });
+        utils.setLocalStorage(`${boardId}_${TrebisMetrics.STORAGE_KEY}`, JSON.stringify(sources));
+    }
+
+    /**
+     * Общее количество меток
+     * @param statistic
+     */
+    public static getTotal(statistic: ITrebisStatistic): number {
+        return statistic.red + statistic.yellow + statistic.green + statistic.blue;
+    }
+
+    /**
+     * Процент выполненных задач (зеленые и синие метки от общего количества).
+     * Если задач нет, то null
+     * @param statistic
+     */
+    public static getCompletionRate(statistic: ITrebisStatistic): number {
+        const total = TrebisMetrics.getTotal(statistic);
+        return total ? Math.round((statistic.green + statistic.blue) / total * 100) : null;
+    }
+
+    /**
+     * Процент перенесенных задач (желтые метки от общего количества).
+     * Если задач нет, то null
+     * @param statistic
+     */
+    public static getCarryOverRate(statistic: ITrebisStatistic): number {
+        const total = TrebisMetrics.getTotal(statistic);
+        return total ? Math.round(statistic.yellow / total * 100) : null;
+    }
+
+    /**
+     * Сравнение статистики за два периода
+     * @param old Статистика за предыдущий период
+     * @param current Статистика за текущий период
+     */
+    public static getDelta(old: ITrebisStatistic, current: ITrebisStatistic): ITrebisStatisticDelta {
+        const delta = (color: string): ITrebisDelta => {
+            const diff = current[color] - old[color];
+            return {
+                old: old[color],
+                current: current[color],
+                diff,
+                percent: old[color] ? Math.round(diff / old[color] * 100) : null
+            };
+        };
+        return {
+            red: delta('red'),
+            yellow: delta('yellow'),
+            green: delta('green'),
+            blue: delta('blue')
+        };
+    }
+
+    /**
+     * Расчет показателей за период
+     * @param statistic Статистика за период
+     * @param startDate Начало периода
+     * @param endDate Окончание периода
+     * @param chronicCards Хронические задачи за период. Можно получить через getChronicCards
+     */
+    public getMetrics(statistic: ITrebisStatistic, startDate: Date, endDate: Date,
+                      chronicCards: ITrebisChronicCard[] = []): ITrebisMetrics {
+        const total = TrebisMetrics.getTotal(statistic);
+        const workingDays = this.calendar.getWorkingDaysCount(startDate, endDate);
+        return {
+            total,
+            completionRate: TrebisMetrics.getCompletionRate(statistic),
+            carryOverRate: TrebisMetrics.getCarryOverRate(statistic),
+            workingDays,
+            averagePerDay: workingDays ? Math.round(total / workingDays * 10) / 10 : null,
+            chronicDays: this.chronicDays,
+            chronicCards
+        };
+    }
+
+    /**
+     * Поиск задач, которые переносятся больше chronicDays дней подряд.
+     * Копия карточки определяется по сохраненной связи с исходной карточкой (см. saveCardSource),
+     * а если связи нет, то по совпадению названия с не выполненной карточкой в списке за предыдущий день.
+     * Выполненные карточки не переносятся, поэтому повторяющиеся задачи (например ежедневная планерка) хроническими не считаются
+     * @param lists Списки за период с карточками
+     * @param dates Даты списков. Списки без даты не учитываются
+     * @param sources Связи между копиями карточек и исходными карточками
+     * @param memberNames Имена участников по их идентификатору
+     */
+    public getChronicCards(lists: ITrelloListData[], dates: Date[], sources: Record<string, string>,
+                           memberNames: Record<string, string> = {}): ITrebisChronicCard[] {
+        const datedLists = lists.map((list, index) => ({list, date: dates[index]}))
+            .filter(item => item.date)
+            .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+        const chains: ITrebisChronicCard[] = [];
+        let prevById: Record<string, ITrebisChronicCard> = {};
+        let prevByName: Record<string, ITrebisChronicCard> = {};
+        for (const {list, date} of datedLists) {
+            const byId: Record<string, ITrebisChronicCard> = {};
+            const byName: Record<string, ITrebisChronicCard> = {};
+            const continued: ITrebisChronicCard[] = [];
+            for (const card of (list.cards || []) as ITrelloCardData[]) {
+                const name = TrebisMetrics._getCardName(card);
+                let prev = prevById[sources[card.id]] || prevByName[name];
+                if (prev && continued.includes(prev)) {
+                    prev = null;
+                }
+                let chain: ITrebisChronicCard;
+                if (prev) {
+                    continued.push(prev);
+                    chain = {...prev, days: prev.days + 1, lastDate: utils.date(date.getTime(), true)};
+                    chains[chains.indexOf(prev)] = chain;
+                } else {
+                    chain = {
+                        name: card.name,
+                        days: 0,
+                        startDate: utils.date(date.getTime(), true),
+                        lastDate: utils.date(date.getTime(), true),
+                        members: []
+                    };
+                    chains.push(chain);
+                }
+                chain.url = card.url || card.shortUrl || chain.url;
+                chain.members = (card.idMembers || []).map((idMember: string) => memberNames[idMember] || idMember);
+                byId[card.id] = chain;
+                if (!TrebisMetrics._isDone(card)) {
+                    byName[name] = chain;
+                }
+            }
+            prevById = byId;
+            prevByName = byName;
+        }
+        return chains.filter(chain => chain.days > this.chronicDays)
+            .sort((a, b) => b.days - a.days);
+    }
+
+    /**
+     * Выполнена ли задача: карточка с зеленой или синей меткой
+     * @param card
+     */
+    protected static _isDone(card: ITrelloCardData): boolean {
+        return (card.labels || []).some(label => ['green', 'blue'].includes(label.color));
+    }
+
+    protected static _getCardName(card: ITrelloCardData): string {
+        return (card.name || '').trim().toLowerCase();
+    }
+}
@@ -0,0 +1,118 @@
+import {TrebisSettings} from "./TrebisSettings";
+import {ITrebisLabel, ITrebisRules, ITrebisRulesPreset, ITrebisRulesResult, ITrelloCardData, ITrelloLabel} from "./interfaces";
+
+/**
+ * Правила переноса карточек.
+ * Метки в правилах указываются цветом или названием метки на доске.
+ */
+export class TrebisRules {
+    /**
+     * Любая метка
+     */
+    public static readonly ANY_LABEL = '*';
+    public static readonly DEFAULT_PRESET = 'default';
+    /**
+     * Предустановленные наборы правил
+     */
+    public static readonly PRESETS: Record<string, ITrebisRulesPreset> = {
+        default: {
+            title: 'Стандартный',
+            rules: {
+                done: ['green', 'blue'],
+                carry: [TrebisRules.ANY_LABEL],
+                strip: ['red'],
+                addToCopy: ['yellow'],
+                addToSource: ['red']
+            }
+        }
+    };
+
+    public rules: ITrebisRules;
+
+    public constructor(rules: ITrebisRules = null) {
+        this.rules = {...TrebisRules.PRESETS[TrebisRules.DEFAULT_PRESET].rules, ...(rules || {})};
+    }
+
+    /**
+     * Получение правил переноса для доски. Если правила не заданы, используется стандартный набор
+     * @param boardId
+     */
+    public static getBoardRules(boardId: string): TrebisRules {
+        return new TrebisRules(TrebisSettings.get('rules')[boardId]);
+    }
+
+    /**
+     * Сохранение правил переноса для доски
+     * @param boardId
+     * @param rules
+     */
+    public static saveBoardRules(boardId: string, rules: ITrebisRules): void {
+        TrebisSettings.update((data) => {
+            data.rules[boardId] = rules;
+        });
+    }
+
+    /**
+     * Подходит ли метка под одно из значений правила
+     * @param values
+     * @param label
+     */
+    protected static _isMatch(values: string[], label: ITrelloLabel): boolean {
+        return values.some((value) => {
+            return value === TrebisRules.ANY_LABEL || value === label.color || (!!label.name && value === label.name);
+        });
+    }
+
+    /**
+     * Получение идентификаторов меток по их цвету или названию
+     * @param values
+     * @param labels
+     */
+    protected static _getLabelIds(values: string[], labels: ITrebisLabel): string[] {
+        const res: string[] = [];
+        values.forEach((value) => {
+            if (labels && labels[value] && !res.includes(labels[value])) {
+                res.push(labels[value]);
+            }
+        });
+        return res;
+    }
+
+    /**
+     * Считается ли карточка выполненной
+     * @param card
+     */
+    public isDone(card: ITrelloCardData): boolean {
+        return (card.labels || []).some((label) => {
+            return TrebisRules._isMatch(this.rules.done.filter(value => value !== TrebisRules.ANY_LABEL), label);
+        });
+    }
+
+    /**
+     * Применение правил к карточке.
+     * Возвращает признак выполнения карточки и идентификаторы меток для новой и исходной карточки
+     * @param card
+     * @param labels Метки доски
+     */
+    public evaluate(card: ITrelloCardData, labels: ITrebisLabel): ITrebisRulesResult {
+        if (this.isDone(card)) {
+            return {isDone: true, labels: [], sourceLabels: []};
+        }
+        const copyLabels: string[] = [];
+        (card.labels || []).forEach((label) => {
+            if (TrebisRules._isMatch(this.rules.carry, label) && !TrebisRules._isMatch(this.rules.strip, label)) {
+                copyLabels.push(label.id);
+            }
+        });
+        TrebisRules._getLabelIds(this.rules.addToCopy, labels).forEach((labelId) => {
+            if (!copyLabels.includes(labelId)) {
+                copyLabels.push(labelId);
+            }
+        });
+        return {
+            isDone: false,
+            labels: copyLabels,
+            sourceLabels: TrebisRules._getLabelIds(this.rules.addToSource, labels)
+        };
+    }
+}
@@ -0,0 +1,280 @@
+import {TREBIS as utils} from "./utils";
+import {ITrebisCachedValue, ITrebisSettingsData, ITrebisSettingsExport, TTrebisCacheSection} from "./interfaces";
+
+/**
+ * Настройки trebis.
+ * Все настройки хранятся в одном документе с версией схемы. При изменении схемы добавляется миграция,
+ * переводящая сохраненные настройки с предыдущей версии.
+ * Идентификаторы, полученные из trello (доски и метки), кэшируются на ограниченное время.
+ * Служебные данные (журнал изменений, связи карточек, очередь отправки статистики) хранятся отдельно и в настройки не входят
+ */
+export class TrebisSettings {
+    public static readonly STORAGE_KEY = 'settings';
+    public static readonly VERSION = 1;
+    /**
+     * Время жизни закэшированных идентификаторов. В мсек.
+     */
+    public static readonly CACHE_TTL: Readonly<Record<TTrebisCacheSection, number>> = {
+        boardIds: 30 * 24 * 3600 * 1000,
+        labels: 24 * 3600 * 1000
+    };
+    /**
+     * Настройки, которые не выгружаются: данные авторизации и закэшированные идентификаторы
+     */
+    public static readonly PRIVATE_FIELDS: (keyof ITrebisSettingsData)[] = ['version', 'auth', 'boardIds', 'labels'];
+    public static readonly DEFAULT_SETTINGS: Readonly<ITrebisSettingsData> = {
+        version: TrebisSettings.VERSION,
+        auth: null,
+        org: {name: null, detectedName: null, id: null, admins: null},
+        boardIds: {},
+        labels: {},
+        rules: {},
+        retention: {},
+        calendar: null,
+        concurrency: null,
+        statisticStore: null,
+        datePatterns: {},
+        chronicDays: {}
+    };
+
+    /**
+     * Миграции настроек. Ключ - версия, в которую переводятся настройки
+     */
+    protected static readonly MIGRATIONS: Record<number, (data: ITrebisSettingsData) => ITrebisSettingsData> = {
+        1: () => TrebisSettings._migrateLegacyKeys()
+    };
+
+    /**
+     * Получение всех настроек. Если настройки сохранены в старой версии схемы, то они переводятся в текущую
+     */
+    public static getSettings(): ITrebisSettingsData {
+        let data: ITrebisSettingsData = null;
+        const value = utils.getLocalStorage(TrebisSettings.STORAGE_KEY);
+        if (value) {
+            try {
+                data = JSON.parse(value);
+            } catch (e) {
+                utils.getLogger().warn(e.message);
+            }
+        }
+        const version = data?.version || 0;
+        if (version < TrebisSettings.VERSION) {
+            data = TrebisSettings._migrate(data, version);
+            TrebisSettings._save(data);
+        }
+        return TrebisSettings._getDefault(data);
+    }
+
+    /**
+     * Получение настройки
+     * @param name
+     */
+    public static get<K extends keyof ITrebisSettingsData>(name: K): ITrebisSettingsData[K] {
+        return TrebisSettings.getSettings()[name];
+    }
+
+    /**
+     * Сохранение настройки
+     * @param name
+     * @param value
+     */
+    public static set<K extends keyof ITrebisSettingsData>(name: K, value: ITrebisSettingsData[K]): void {
+        TrebisSettings.update((data) => {
+            data[name] = value;
+        });
+    }
+
+    /**
+     * Изменение настроек
+     * @param cb Функция, изменяющая настройки
+     */
+    public static update(cb: (data: ITrebisSettingsData) => void): void {
+        const data = TrebisSettings.getSettings();
+        cb(data);
+        TrebisSettings._save(data);
+    }
+
+    /**
+     * Получение закэшированного идентификатора. Если значения нет или истекло время его жизни, то null
+     * @param section
+     * @param key
+     */
+    public static getCached<T>(section: TTrebisCacheSection, key: string): T {
+        const item = TrebisSettings.get(section)[key] as ITrebisCachedValue<T>;
+        if (item && Date.now() - item.date < TrebisSettings.CACHE_TTL[section]) {
+            return item.value;
+        }
+        return null;
+    }
+
+    /**
+     * Сохранение идентификатора в кэш. Значения с истекшим временем жизни при этом удаляются
+     * @param section
+     * @param key
+     * @param value
+     */
+    public static setCached<T>(section: TTrebisCacheSection, key: string, value: T): void {
+        TrebisSettings.update((data) => {
+            const cache = data[section] as Record<string, ITrebisCachedValue<T>>;
+            const now = Date.now();
+            Object.keys(cache).forEach((cacheKey) => {
+                if (now - cache[cacheKey].date >= TrebisSettings.CACHE_TTL[section]) {
+                    delete cache[cacheKey];
+                }
+            });
+            cache[key] = {value, date: now};
+        });
+    }
+
+    /**
+     * Удаление закэшированных идентификаторов
+     * @param section Если не указан, то очищается весь кэш
+     * @param key Если не указан, то очищается весь раздел
+     */
+    public static invalidate(section: TTrebisCacheSection = null, key: string = null): void {
+        TrebisSettings.update((data) => {
+            const sections: TTrebisCacheSection[] = section ? [section] : ['boardIds', 'labels'];
+            sections.forEach((name) => {
+                if (key) {
+                    delete data[name][key];
+                } else {
+                    data[name] = {};
+                }
+            });
+        });
+    }
+
+    /**
+     * Выгрузка настроек в json. Данные авторизации и закэшированные идентификаторы не выгружаются
+     */
+    public static export(): string {
+        const data = TrebisSettings.getSettings();
+        const settings: Partial<ITrebisSettingsData> = {};
+        (Object.keys(data) as (keyof ITrebisSettingsData)[]).forEach((name) => {
+            if (!TrebisSettings.PRIVATE_FIELDS.includes(name)) {
+                Object.assign(settings, {[name]: data[name]});
+            }
+        });
+        const res: ITrebisSettingsExport = {
+            app: 'trebis',
+            version: TrebisSettings.VERSION,
+            date: new Date().toISOString(),
+            settings
+        };
+        return JSON.stringify(res, null, 2);
+    }
+
+    /**
+     * Загрузка настроек из json, полученного через export. Данные авторизации и кэш остаются без изменений
+     * @param content
+     * @return Текст ошибки или null, если настройки загружены
+     */
+    public static import(content: string): string {
+        let res: ITrebisSettingsExport;
+        try {
+            res = JSON.parse(content);
+        } catch (e) {
+            return 'Файл не является json';
+        }
+        if (res?.app !== 'trebis' || !res.settings || typeof res.settings !== 'object') {
+            return 'Файл не является выгрузкой настроек trebis';
+        }
+        if (!res.version || res.version > TrebisSettings.VERSION) {
+            return 'Настройки выгружены из более новой версии trebis';
+        }
+        const imported = TrebisSettings._migrate({...TrebisSettings._getDefault(null), ...res.settings}, res.version);
+        TrebisSettings.update((data) => {
+            (Object.keys(data) as (keyof ITrebisSettingsData)[]).forEach((name) => {
+                if (!TrebisSettings.PRIVATE_FIELDS.includes(name) && res.settings.hasOwnProperty(name)) {
+                    Object.assign(data, {[name]: imported[name]});
+                }
+            });
+        });
+        return null;
+    }
+
+    protected static _getDefault(data: ITrebisSettingsData): ITrebisSettingsData {
+        const res: ITrebisSettingsData = {...JSON.parse(JSON.stringify(TrebisSettings.DEFAULT_SETTINGS)), ...(data || {})};
+        res.org = {...TrebisSettings.DEFAULT_SETTINGS.org, ...(res.org || {})};
+        return res;
+    }
+
+    protected static _save(data: ITrebisSettingsData): void {
+        utils.setLocalStorage(TrebisSettings.STORAGE_KEY, JSON.stringify(data));
+    }
+
+    /**
+     * Перевод настроек в текущую версию схемы
+     * @param data
+     * @param version Версия, в которой сохранены настройки
+     */
+    protected static _migrate(data: ITrebisSettingsData, version: number): ITrebisSettingsData {
+        for (let i = version + 1; i <= TrebisSettings.VERSION; i++) {
+            data = TrebisSettings.MIGRATIONS[i](data);
+            data.version = i;
+        }
+        return data;
+    }
+
+    /**
+     * Перенос настроек из отдельных ключей localStorage, в которых они хранились до появления схемы.
+     * Перенесенные ключи удаляются
+     */
+    protected static _migrateLegacyKeys(): ITrebisSettingsData {
+        const data = TrebisSettings._getDefault(null);
+        const storage = utils.getStorage();
+        const keys: string[] = [];
+        for (let i = 0; i < storage.length; i++) {
+            const key = storage.key(i);
+            if (key?.indexOf(utils.STORAGE_PREFIX) === 0) {
+                keys.push(key.slice(utils.STORAGE_PREFIX.length));
+            }
+        }
+        const parse = (value: string) => {
+            try {
+                return JSON.parse(value);
+            } catch (e) {
+                return null;
+            }
+        };
+        const date = Date.now();
+        const auth = {key: null, token: null};
+        keys.forEach((key) => {
+            const value = utils.getLocalStorage(key);
+            // Настройки доски хранились в ключах вида {идентификатор}_{название}
+            const [, id, name] = key.match(/^(.+)_(board-id|labels|rules|retention)$/) || [];
+            if (key === 'key' || key === 'token') {
+                auth[key] = value;
+            } else if (key === 'org_name') {
+                data.org.detectedName = value;
+            } else if (key === 'saved_org-name') {
+                data.org.name = value;
+            } else if (key === 'saved_org-id') {
+                data.org.id = value;
+            } else if (key === 'admins') {
+                data.org.admins = parse(value);
+            } else if (key === 'concurrency') {
+                data.concurrency = Number(value) || null;
+            } else if (key === 'calendar') {
+                data.calendar = parse(value);
+            } else if (key === 'statistic-store') {
+                data.statisticStore = parse(value);
+            } else if (name === 'board-id') {
+                data.boardIds[id] = {value, date};
+            } else if (name === 'labels') {
+                data.labels[id] = {value: parse(value), date};
+            } else if (name === 'rules') {
+                data.rules[id] = parse(value);
+            } else if (name === 'retention') {
+                data.retention[id] = parse(value);
+            } else {
+                return;
+            }
+            utils.removeLocalStorage(key);
+        });
+        if (auth.key && auth.token) {
+            data.auth = auth;
+        }
+        return data;
+    }
+}
@@ -0,0 +1,113 @@
+import {TREBIS as utils} from "./utils";
+import {ITrebisListStatisticCache, ITrelloListData} from "./interfaces";
+
+/**
+ * Локальный кэш статистики по спискам в IndexedDB.
+ * Для каждого списка хранится посчитанная статистика и подпись списка: количество карточек и дата последней активности.
+ * Если подпись списка не изменилась, то карточки списка повторно не запрашиваются
+ */
+export class TrebisStatisticCache {
+    public static readonly DB_NAME = 'trebis';
+    public static readonly DB_VERSION = 1;
+    public static readonly STORE_NAME = 'list-statistic';
+    protected static readonly BOARD_INDEX = 'boardId';
+
+    protected _db: Promise<IDBDatabase> = null;
+
+    /**
+     * Доступен ли IndexedDB в браузере
+     */
+    public static isSupported(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    /**
+     * Получение подписи списка по его карточкам.
+     * Подпись меняется при добавлении, удалении или изменении карточек списка
+     * @param list
+     */
+    public static getSignature(list: ITrelloListData): string {
+        const cards = list.cards || [];
+        let lastActivity = '';
+        cards.forEach((card) => {
+            if (card.dateLastActivity && card.dateLastActivity > lastActivity) {
+                lastActivity = card.dateLastActivity;
+            }
+        });
+        return `${cards.length}_${lastActivity}`;
+    }
+
+    /**
+     * Получение закэшированной статистики по всем спискам доски
+     * @param boardId
+     * @return Статистика по идентификатору списка
+     */
+    public async getLists(boardId: string): Promise<Record<string, ITrebisListStatisticCache>> {
+        const res: Record<string, ITrebisListStatisticCache> = {};
+        try {
+            const store = await this._getStore('readonly');
+            const items = await utils.idbRequest<ITrebisListStatisticCache[]>(
+                store.index(TrebisStatisticCache.BOARD_INDEX).getAll(boardId));
+            items.forEach((item) => {
+                res[item.id] = item;
+            });
+        } catch (e) {
+            utils.getLogger().warn(e?.message || `${e}`);
+        }
+        return res;
+    }
+
+    /**
+     * Сохранение статистики по спискам
+     * @param items
+     */
+    public async save(items: ITrebisListStatisticCache[]): Promise<void> {
+        try {
+            const store = await this._getStore('readwrite');
+            await Promise.all(items.map(item => utils.idbRequest(store.put(item))));
+        } catch (e) {
+            utils.getLogger().warn(e?.message || `${e}`);
+        }
+    }
+
+    /**
+     * Очистка кэша. Если доска не указана, то очищается кэш всех досок
+     * @param boardId
+     */
+    public async clear(boardId: string = null): Promise<void> {
+        const store = await this._getStore('readwrite');
+        if (boardId) {
+            const keys = await utils.idbRequest<IDBValidKey[]>(
+                store.index(TrebisStatisticCache.BOARD_INDEX).getAllKeys(boardId));
+            await Promise.all(keys.map(key => utils.idbRequest(store.delete(key))));
+        } else {
+            await utils.idbRequest(store.clear());
+        }
+    }
+
+    protected _open(): Promise<IDBDatabase> {
+        if (!this._db) {
+            this._db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(TrebisStatisticCache.DB_NAME, TrebisStatisticCache.DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(TrebisStatisticCache.STORE_NAME)) {
+                        const store = db.createObjectStore(TrebisStatisticCache.STORE_NAME, {keyPath: 'id'});
+                        store.createIndex(TrebisStatisticCache.BOARD_INDEX, 'boardId', {unique: false});
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this._db = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this._db;
+    }
+
+    protected async _getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const db = await this._open();
+        return db.transaction(TrebisStatisticCache.STORE_NAME, mode).objectStore(TrebisStatisticCache.STORE_NAME);
+    }
+}
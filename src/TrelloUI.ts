@@ -1,4 +1,4 @@
-import {ITrelloUIButton, ITrelloUiCallback} from "./interfaces";
+import {ITrebisLogger, ITrelloUIButton, ITrelloUiCallback} from "./interfaces";
 
 export class TrelloUI {
     public static INPUT_LIST_NAME = 'trebis_new-listName';
@@ -213,4 +213,26 @@ export class TrelloUI {
     public static errorNotification(msg: string) {
         this.addNotification(`Ошибка:${msg}`, 'red');
     }
+
+    /**
+     * Логгер для страницы trello: ошибки дополнительно показываются пользователю в виде уведомлений
+     */
+    public static getLogger(): ITrebisLogger {
+        return {
+            warn: (message: string) => console.warn(message),
+            error: (message: string) => {
+                console.warn(message);
+                TrelloUI.errorNotification(message);
+            }
+        };
+    }
+
+    public static downloadAsFile(fileName: string, data: string | Uint8Array,
+                                 options: BlobPropertyBag = {type: 'application/json'}) {
+        const a = document.createElement("a");
+        const file = new Blob([data], options);
+        a.href = URL.createObjectURL(file);
+        a.download = fileName;
+        a.click();
+    }
 }
@@ -0,0 +1,129 @@
+/**
+ * Создание zip архива без сжатия.
+ * Нужен для формирования xlsx файла на стороне клиента, так как xlsx является zip архивом с xml файлами
+ */
+export class ZipWriter {
+    protected static _crcTable: number[] = null;
+
+    protected _files: { name: Uint8Array, data: Uint8Array, crc: number, offset: number }[] = [];
+    protected _offset: number = 0;
+    protected _chunks: Uint8Array[] = [];
+
+    /**
+     * Добавление файла в архив
+     * @param name Путь к файлу внутри архива
+     * @param content Содержимое файла
+     */
+    public addFile(name: string, content: string | Uint8Array): void {
+        const encoder = new TextEncoder();
+        const data = typeof content === 'string' ? encoder.encode(content) : content;
+        const file = {
+            name: encoder.encode(name),
+            data,
+            crc: ZipWriter.crc32(data),
+            offset: this._offset
+        };
+        this._files.push(file);
+        const header = this._getHeader(0x04034b50, file, false);
+        this._push(header);
+        this._push(data);
+    }
+
+    /**
+     * Получение содержимого архива
+     */
+    public toUint8Array(): Uint8Array {
+        const centralOffset = this._offset;
+        const chunks = this._chunks.slice();
+        let centralSize = 0;
+        this._files.forEach((file) => {
+            const header = this._getHeader(0x02014b50, file, true);
+            chunks.push(header);
+            centralSize += header.length;
+        });
+        const end = new Uint8Array(22);
+        const view = new DataView(end.buffer);
+        view.setUint32(0, 0x06054b50, true);
+        view.setUint16(8, this._files.length, true);
+        view.setUint16(10, this._files.length, true);
+        view.setUint32(12, centralSize, true);
+        view.setUint32(16, centralOffset, true);
+        chunks.push(end);
+
+        const res = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+        let position = 0;
+        chunks.forEach((chunk) => {
+            res.set(chunk, position);
+            position += chunk.length;
+        });
+        return res;
+    }
+
+    /**
+     * Подсчет контрольной суммы crc32
+     * @param data
+     */
+    public static crc32(data: Uint8Array): number {
+        if (!ZipWriter._crcTable) {
+            ZipWriter._crcTable = [];
+            for (let i = 0; i < 256; i++) {
+                let c = i;
+                for (let k = 0; k < 8; k++) {
+                    // tslint:disable-next-line:no-bitwise
+                    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+                }
+                // tslint:disable-next-line:no-bitwise
+                ZipWriter._crcTable.push(c >>> 0);
+            }
+        }
+        let crc = 0xffffffff;
+        for (const byte of data) {
+            // tslint:disable-next-line:no-bitwise
+            crc = ZipWriter._crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+        }
+        // tslint:disable-next-line:no-bitwise
+        return (crc ^ 0xffffffff) >>> 0;
+    }
+
+    protected _push(chunk: Uint8Array): void {
+        this._chunks.push(chunk);
+        this._offset += chunk.length;
+    }
+
+    /**
+     * Формирование заголовка файла. Для центрального каталога заголовок содержит дополнительные поля
+     * @param signature
+     * @param file
+     * @param isCentral
+     */
+    protected _getHeader(signature: number, file: { name: Uint8Array, data: Uint8Array, crc: number, offset: number },
+                         isCentral: boolean): Uint8Array {
+        const size = isCentral ? 46 : 30;
+        const header = new Uint8Array(size + file.name.length);
+        const view = new DataView(header.buffer);
+        let position = 0;
+        view.setUint32(position, signature, true);
+        position += 4;
+        if (isCentral) {
+            // Версия, которой создан архив
+            view.setUint16(position, 20, true);
+            position += 2;
+        }
+        // Минимальная версия для распаковки
+        view.setUint16(position, 20, true);
+        // Флаг: имена файлов в utf-8
+        view.setUint16(position + 2, 0x0800, true);
+        // Метод сжатия: без сжатия. Дата изменения - 01.01.1980
+        view.setUint16(position + 4, 0, true);
+        view.setUint16(position + 8, 0x21, true);
+        view.setUint32(position + 10, file.crc, true);
+        view.setUint32(position + 14, file.data.length, true);
+        view.setUint32(position + 18, file.data.length, true);
+        view.setUint16(position + 22, file.name.length, true);
+        if (isCentral) {
+            view.setUint32(position + 36, file.offset, true);
+        }
+        header.set(file.name, size);
+        return header;
+    }
+}
@@ -0,0 +1,76 @@
+import {TREBIS as utils} from "../utils";
+import {ServerProtocol} from "./ServerProtocol";
+import {IRequestSend, IServerApiData, IServerApiRequest, IStatisticStore, IStatisticStoreRecord} from "../interfaces";
+
+/**
+ * Хранение статистики рабочего пространства в IndexedDB браузера.
+ * Статистика хранится только на текущем компьютере и никуда не отправляется
+ */
+export class IndexedDbStatisticStore implements IStatisticStore {
+    public static readonly DB_NAME = 'trebis_statistic';
+    public static readonly DB_VERSION = 1;
+    public static readonly STORE_NAME = 'statistic';
+    protected static readonly YEAR_INDEX = 'orgId_year';
+
+    protected _db: Promise<IDBDatabase> = null;
+
+    public async save(data: IServerApiData): Promise<IRequestSend> {
+        try {
+            const store = await this._getStore('readwrite');
+            // Статистика за день полностью заменяет ранее сохраненную, в том числе сохраненную под названием доски
+            // до передачи идентификатора
+            await Promise.all(ServerProtocol.getRecords(data).map((record) => {
+                const requests = [utils.idbRequest(store.put({...record, id: IndexedDbStatisticStore._getId(record)}))];
+                if (record.boardId !== record.name) {
+                    requests.push(utils.idbRequest(store.delete(IndexedDbStatisticStore._getId({...record, boardId: null}))));
+                }
+                return Promise.all(requests);
+            }));
+            return {status: true};
+        } catch (e) {
+            return {status: false, err: e?.message || `${e}`};
+        }
+    }
+
+    public async get(year: string, orgId: string): Promise<IServerApiRequest> {
+        try {
+            const store = await this._getStore('readonly');
+            const records = await utils.idbRequest<IStatisticStoreRecord[]>(
+                store.index(IndexedDbStatisticStore.YEAR_INDEX).getAll([orgId, Number(year)]));
+            return {status: true, res: ServerProtocol.aggregate(records)};
+        } catch (e) {
+            return {status: false, msg: e?.message || `${e}`};
+        }
+    }
+
+    protected static _getId(record: IStatisticStoreRecord): string {
+        return ServerProtocol.getDayKey(record.orgId, ServerProtocol.getBoardKey(record), record.year, record.month,
+            record.day);
+    }
+
+    protected _open(): Promise<IDBDatabase> {
+        if (!this._db) {
+            this._db = new Promise((resolve, reject) => {
+                const request = indexedDB.open(IndexedDbStatisticStore.DB_NAME, IndexedDbStatisticStore.DB_VERSION);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    if (!db.objectStoreNames.contains(IndexedDbStatisticStore.STORE_NAME)) {
+                        const store = db.createObjectStore(IndexedDbStatisticStore.STORE_NAME, {keyPath: 'id'});
+                        store.createIndex(IndexedDbStatisticStore.YEAR_INDEX, ['orgId', 'year'], {unique: false});
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => {
+                    this._db = null;
+                    reject(request.error);
+                };
+            });
+        }
+        return this._db;
+    }
+
+    protected async _getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+        const db = await this._open();
+        return db.transaction(IndexedDbStatisticStore.STORE_NAME, mode).objectStore(IndexedDbStatisticStore.STORE_NAME);
+    }
+}
@@ -1,4 +1,5 @@
-import {IGetParams, IRequestSend} from "../interfaces";
+import {TREBIS as utils} from "../utils";
+import {IGetParams, IRequestError, IRequestParams, IRequestSend, TRequestErrorType} from "../interfaces";
 
 /**
  * Класс отвечающий за отправку curl запросов на необходимый url.
@@ -6,7 +7,7 @@ import {IGetParams, IRequestSend} from "../interfaces";
  * @class Request
  */
 export class Request {
-    public static readonly HEADER_AP_JSON: Record<string, string> = {'Content-Type': 'application/json'};
+    public static readonly HEADER_AP_JSON: Readonly<Record<string, string>> = Object.freeze({'Content-Type': 'application/json'});
     /**
      * Адрес, на который отправляется запрос.
      */
@@ -36,11 +37,37 @@ export class Request {
      * True, если полученный ответ нужно преобразовать как json. По умолчанию true.
      */
     public isConvertJson: boolean;
+    /**
+     * Максимальное количество повторных попыток отправки запроса.
+     */
+    public maxRetry: number;
+    /**
+     * Начальная задержка перед повторной отправкой запроса. С каждой попыткой задержка увеличивается в 2 раза. В мсек.
+     */
+    public retryDelay: number;
+    /**
+     * Максимальная задержка перед повторной отправкой запроса. В мсек.
+     */
+    public maxRetryDelay: number;
 
     /**
      * Ошибки при выполнении запроса.
      */
-    private _error: string;
+    private _error: IRequestError;
+    /**
+     * Таймер, прерывающий запрос по истечении maxTimeQuery.
+     */
+    private _timer: ReturnType<typeof setTimeout>;
+
+    /**
+     * Время, до которого запросы не отправляются из-за ограничения количества запросов.
+     * Общее для всех запросов, так как ограничение действует на весь ключ/токен.
+     */
+    protected static _waitUntil: number = 0;
+    /**
+     * Методы, которые можно безопасно отправить повторно.
+     */
+    protected static readonly IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'];
 
     /**
      * TRequest constructor.
@@ -53,7 +80,32 @@ export class Request {
         this.customRequest = null;
         this.maxTimeQuery = null;
         this.isConvertJson = true;
-        this._error = '';
+        this.maxRetry = 3;
+        this.retryDelay = 500;
+        this.maxRetryDelay = 30000;
+        this._error = null;
+        this._timer = null;
+    }
+
+    /**
+     * Создание запроса по его описанию.
+     * Описание копируется, поэтому изменение исходного объекта не влияет на запрос.
+     * @param params
+     */
+    public static create(params: IRequestParams): Request {
+        const request = new Request();
+        request.url = params.url;
+        request.get = params.get ? {...params.get} : null;
+        request.post = params.post ?? null;
+        request.header = params.header ? {...params.header} : null;
+        request.customRequest = params.method ?? null;
+        if (params.maxTimeQuery) {
+            request.maxTimeQuery = params.maxTimeQuery;
+        }
+        if (params.isConvertJson !== undefined) {
+            request.isConvertJson = params.isConvertJson;
+        }
+        return request;
     }
 
     /**
@@ -67,7 +119,7 @@ export class Request {
         if (this.maxTimeQuery) {
             const controller = new AbortController();
             const signal: AbortSignal = controller.signal;
-            setTimeout(() => controller.abort(), this.maxTimeQuery);
+            this._timer = setTimeout(() => controller.abort(), this.maxTimeQuery);
             options.signal = signal;
         }
 
@@ -110,30 +162,149 @@ export class Request {
         return url;
     }
 
+    protected static _sleep(time: number): Promise<void> {
+        return new Promise((resolve) => setTimeout(resolve, time));
+    }
+
+    /**
+     * Ожидание окончания ограничения на количество запросов
+     */
+    protected static async _waitRateLimit(): Promise<void> {
+        const time = Request._waitUntil - Date.now();
+        if (time > 0) {
+            await Request._sleep(time);
+        }
+    }
+
+    /**
+     * Получение времени ожидания из заголовка Retry-After. В мсек.
+     * @param headers
+     */
+    protected static _getRetryAfter(headers: Headers): number {
+        const retryAfter = headers.get('Retry-After');
+        if (retryAfter) {
+            const seconds = Number(retryAfter);
+            if (!isNaN(seconds)) {
+                return seconds * 1000;
+            }
+            const date = Date.parse(retryAfter);
+            if (!isNaN(date)) {
+                return Math.max(date - Date.now(), 0);
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Обработка заголовков ограничения количества запросов trello (x-rate-limit-*).
+     * Если лимит исчерпан, то следующие запросы отправятся только после окончания интервала
+     * @param headers
+     */
+    protected static _updateRateLimit(headers: Headers): void {
+        ['api-token', 'api-key', 'member'].forEach((type) => {
+            const remaining = headers.get(`x-rate-limit-${type}-remaining`);
+            const interval = Number(headers.get(`x-rate-limit-${type}-interval-ms`));
+            if (remaining !== null && Number(remaining) <= 0 && interval) {
+                Request._waitUntil = Math.max(Request._waitUntil, Date.now() + interval);
+            }
+        });
+    }
+
+    /**
+     * Получение метода запроса
+     */
+    protected _getMethod(): string {
+        return (this.customRequest || (this.post ? 'POST' : 'GET')).toUpperCase();
+    }
+
+    /**
+     * Можно ли отправить запрос повторно.
+     * Запросы, превысившие ограничение (429), повторяются всегда, так как trello их не выполнил.
+     * Остальные ошибки повторяются только для идемпотентных запросов
+     * @param error
+     */
+    protected _isRetry(error: IRequestError): boolean {
+        if (error.type === 'http' && error.status === 429) {
+            return true;
+        }
+        if (!Request.IDEMPOTENT_METHODS.includes(this._getMethod())) {
+            return false;
+        }
+        return error.type === 'network' || error.type === 'timeout' || (error.type === 'http' && error.status >= 500);
+    }
+
+    /**
+     * Получение задержки перед повторной попыткой
+     * @param attempt Номер попытки
+     * @param retryAfter Время ожидания, указанное сервером
+     */
+    protected _getRetryDelay(attempt: number, retryAfter: number): number {
+        if (retryAfter !== null && retryAfter !== undefined) {
+            return Math.min(retryAfter, this.maxRetryDelay);
+        }
+        const delay = this.retryDelay * Math.pow(2, attempt - 1);
+        return Math.min(delay + Math.round(Math.random() * this.retryDelay / 2), this.maxRetryDelay);
+    }
+
+    protected _setError(type: TRequestErrorType, message: string, attempts: number, status: number = null,
+                        retryAfter: number = null): IRequestError {
+        this._error = {type, message, attempts, status, retryAfter};
+        return this._error;
+    }
+
     /**
      * Начинаем отправку fetch запроса.
      * В случае успеха возвращаем содержимое запроса, в противном случае null.
+     * При ошибке сети, превышении времени ожидания или ошибке сервера запрос отправляется повторно.
      *
      * @return Promise<any>
      */
     private async _run(): Promise<any> {
-        if (this.url) {
+        if (!this.url) {
+            this._setError('url', 'Не указан url!', 0);
+            return null;
+        }
+        let attempt = 0;
+        while (true) {
+            attempt++;
+            await Request._waitRateLimit();
+            let response: Response = null;
+            let error: IRequestError;
+            let isReadBody = false;
             try {
-                const response = await fetch(this._getUrl(), this._getOptions());
+                response = await utils.getFetch()(this._getUrl(), this._getOptions());
+                Request._updateRateLimit(response.headers);
                 if (response.ok) {
-                    if (this.isConvertJson) {
-                        return await response.json();
-                    }
-                    return await response.text();
+                    // Таймер сбрасывается только после чтения тела, чтобы maxTimeQuery ограничивал и загрузку ответа
+                    isReadBody = true;
+                    const res = this.isConvertJson ? await response.json() : await response.text();
+                    this._error = null;
+                    return res;
+                }
+                const retryAfter = Request._getRetryAfter(response.headers);
+                error = this._setError('http', `Сервер вернул ошибку ${response.status} ${response.statusText}`,
+                    attempt, response.status, retryAfter);
+                if (response.status === 429) {
+                    Request._waitUntil = Math.max(Request._waitUntil, Date.now() + this._getRetryDelay(attempt, retryAfter));
                 }
             } catch (e) {
-                console.warn(e.messageText);
+                if (e?.name === 'AbortError') {
+                    error = this._setError('timeout', `Превышено время ожидания ответа (${this.maxTimeQuery} мсек)`, attempt);
+                } else if (isReadBody) {
+                    this._setError('parse', `Не удалось разобрать ответ: ${e?.message}`, attempt, response.status);
+                    return null;
+                } else {
+                    error = this._setError('network', `Ошибка сети: ${e?.message}`, attempt);
+                }
+            } finally {
+                clearTimeout(this._timer);
+            }
+            if (attempt > this.maxRetry || !this._isRetry(error)) {
+                utils.getLogger().warn(error.message);
+                return null;
             }
-            this._error = `Не удалось получить данные с ${this.url}`;
-        } else {
-            this._error = 'Не указан url!';
+            await Request._sleep(this._getRetryDelay(attempt, error.retryAfter));
         }
-        return null;
     }
 
     /**
@@ -152,7 +323,9 @@ export class Request {
         this._error = null;
         const data: any = await this._run();
         if (this._error) {
-            return {status: false, err: this._error};
+            const err = this._error.type === 'url' ? this._error.message :
+                `Не удалось получить данные с ${this.url}. ${this._error.message}`;
+            return {status: false, err, error: this._error};
         }
         return {status: true, data};
     }
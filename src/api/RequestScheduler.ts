@@ -0,0 +1,102 @@
+import {IRequestSchedulerOptions} from "../interfaces";
+
+/**
+ * Планировщик запросов.
+ * Ограничивает количество одновременно выполняемых запросов и количество запросов за интервал времени,
+ * чтобы не превышать ограничения trello (100 запросов за 10 секунд на токен).
+ */
+export class RequestScheduler {
+    /**
+     * Максимальное количество одновременно выполняемых запросов.
+     */
+    public concurrency: number;
+    /**
+     * Максимальное количество запросов за интервал.
+     */
+    public maxRequests: number;
+    /**
+     * Интервал, за который считается количество запросов. В мсек.
+     */
+    public interval: number;
+
+    protected _active: number = 0;
+    protected _queue: (() => void)[] = [];
+    protected _timestamps: number[] = [];
+    protected _timer: ReturnType<typeof setTimeout> = null;
+
+    public constructor(concurrency: number = 6, maxRequests: number = 90, interval: number = 10000) {
+        this.concurrency = concurrency;
+        this.maxRequests = maxRequests;
+        this.interval = interval;
+    }
+
+    /**
+     * Запуск следующих задач из очереди, если позволяют ограничения
+     */
+    protected _next(): void {
+        while (this._queue.length && this._active < this.concurrency) {
+            const now = Date.now();
+            this._timestamps = this._timestamps.filter(time => time > now - this.interval);
+            if (this._timestamps.length >= this.maxRequests) {
+                if (!this._timer) {
+                    this._timer = setTimeout(() => {
+                        this._timer = null;
+                        this._next();
+                    }, this._timestamps[0] + this.interval - now);
+                }
+                return;
+            }
+            this._active++;
+            this._timestamps.push(now);
+            this._queue.shift()();
+        }
+    }
+
+    /**
+     * Выполнение запроса с учетом ограничений
+     * @param task Функция, отправляющая запрос
+     */
+    public schedule<T>(task: () => Promise<T>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this._queue.push(() => {
+                task().then(resolve, reject).finally(() => {
+                    this._active--;
+                    this._next();
+                });
+            });
+            this._next();
+        });
+    }
+
+    /**
+     * Параллельная обработка элементов, не более options.concurrency одновременно.
+     * Результаты возвращаются в порядке элементов, а о завершении каждого элемента сообщается через onProgress.
+     * Сами запросы внутри task все равно проходят через schedule, поэтому ограничения trello соблюдаются
+     * @param items
+     * @param task
+     * @param options
+     */
+    public static async map<T, R>(items: T[], task: (item: T, index: number) => Promise<R>,
+                                  options: IRequestSchedulerOptions<T, R> = {}): Promise<R[]> {
+        const concurrency = Math.max(options.concurrency || 1, 1);
+        const res: R[] = [];
+        let index = 0;
+        let done = 0;
+        const worker = async () => {
+            while (index < items.length) {
+                const current = index++;
+                res[current] = await task(items[current], current);
+                done++;
+                if (options.onProgress) {
+                    options.onProgress(done, items.length, items[current], res[current]);
+                }
+            }
+        };
+        const workers = [];
+        for (let i = 0; i < Math.min(concurrency, items.length); i++) {
+            workers.push(worker());
+        }
+        await Promise.all(workers);
+        return res;
+    }
+}
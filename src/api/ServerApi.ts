@@ -1,29 +1,38 @@
 import {Request} from "./Request";
-import {IRequestSend, IServerApiData, IServerApiRequest} from "../interfaces";
+import {IRequestSend, IServerApiData, IServerApiRequest, IStatisticStore, TServerApiBody} from "../interfaces";
 
 /**
  * Класс обращающийся к серверу с сохраненными дынными
  */
-export class ServerApi {
-    private _request: Request;
+export class ServerApi implements IStatisticStore {
+    public static readonly DEFAULT_URL = 'https://www.maxim-m.ru/rest/v1/trelo_statistic';
 
-    public constructor() {
-        this._request = new Request();
-        this._request.header = Request.HEADER_AP_JSON;
+    public url: string;
+
+    /**
+     * @param url Адрес REST сервера
+     */
+    public constructor(url: string = ServerApi.DEFAULT_URL) {
+        this.url = url;
     }
 
-    protected _run(method: string, data: any): Promise<IRequestSend> {
-        this._request.url = 'https://www.maxim-m.ru/rest/v1/trelo_statistic';
-        this._request.post = {...data, ...{method}};
-        return this._request.send();
+    protected _run(body: TServerApiBody): Promise<IRequestSend> {
+        return Request.create({
+            url: this.url,
+            post: body,
+            header: Request.HEADER_AP_JSON
+        }).send();
     }
 
     public save(data: IServerApiData): Promise<IRequestSend> {
-        return this._run('save', data);
+        return this._run({...data, method: 'save'});
     }
 
     public async get(year: string, orgId: string): Promise<IServerApiRequest> {
-        const res = await this._run('get', {year, orgId});
+        const res = await this._run({method: 'get', year, orgId});
+        if (!res.status || !res.data) {
+            return {status: false, msg: res.err};
+        }
         return res.data;
     }
 }
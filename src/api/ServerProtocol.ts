@@ -0,0 +1,171 @@
+import {
+    IServerApiData,
+    IServerApiRequestRes,
+    IStatisticStoreRecord,
+    ITrebisStatistic,
+    TServerApiBody
+} from "../interfaces";
+
+/**
+ * Общая часть протокола сервера статистики, используемая расширением и сервером (каталог server).
+ * Запрос отправляется методом POST с json телом TServerApiBody:
+ * save - сохранение статистики доски по дням (IServerApiData). Статистика за день определяется ключом
+ * (рабочее пространство, идентификатор доски, дата) и полностью заменяет ранее сохраненную,
+ * поэтому повторная отправка не увеличивает статистику;
+ * get - получение статистики всех досок рабочего пространства за год по месяцам (IServerApiRequest).
+ */
+export class ServerProtocol {
+    public static readonly COLORS: (keyof ITrebisStatistic)[] = ['red', 'yellow', 'blue', 'green'];
+
+    /**
+     * Проверка тела запроса.
+     * @param body
+     * @return Текст ошибки или null, если запрос корректный
+     */
+    public static validate(body: TServerApiBody): string {
+        if (!body || typeof body !== 'object') {
+            return 'Тело запроса должно быть объектом';
+        }
+        switch (body.method) {
+            case 'save':
+                if (!ServerProtocol.isOrgId(body.orgId) || !ServerProtocol._isString(body.name)) {
+                    return 'Не указано рабочее пространство или название доски';
+                }
+                if (body.boardId !== undefined && !ServerProtocol._isString(body.boardId)) {
+                    return 'Некорректный идентификатор доски';
+                }
+                return ServerProtocol._validateDays(body.data);
+            case 'get':
+                if (!ServerProtocol.isOrgId(body.orgId) || !ServerProtocol._isYear(body.year)) {
+                    return 'Не указано рабочее пространство или год';
+                }
+                return null;
+            default:
+                return `Неизвестный метод: ${(body as { method: string }).method}`;
+        }
+    }
+
+    /**
+     * Получение ключа доски. Статистика, отправленная без идентификатора доски, определяется названием доски
+     * @param data
+     */
+    public static getBoardKey(data: { boardId?: string, name?: string }): string {
+        return data.boardId || data.name;
+    }
+
+    /**
+     * Получение ключа статистики за день. Статистика с одинаковым ключом заменяет ранее сохраненную
+     * @param orgId
+     * @param boardKey Ключ доски (getBoardKey)
+     * @param year
+     * @param month
+     * @param day
+     */
+    public static getDayKey(orgId: string, boardKey: string, year: number | string, month: number | string,
+                            day: number | string): string {
+        return `${orgId}_${boardKey}_${year}-${month}-${day}`;
+    }
+
+    /**
+     * Разбиение статистики доски по дням на отдельные записи
+     * @param data
+     */
+    public static getRecords(data: IServerApiData): IStatisticStoreRecord[] {
+        const res: IStatisticStoreRecord[] = [];
+        for (const year of Object.keys(data.data || {})) {
+            for (const month of Object.keys(data.data[year])) {
+                for (const day of Object.keys(data.data[year][month])) {
+                    const {red, yellow, blue, green} = data.data[year][month][day];
+                    res.push({
+                        orgId: data.orgId,
+                        boardId: ServerProtocol.getBoardKey(data),
+                        name: data.name,
+                        year: Number(year),
+                        month: Number(month),
+                        day: Number(day),
+                        statistic: {red, yellow, blue, green}
+                    });
+                }
+            }
+        }
+        return res;
+    }
+
+    /**
+     * Подсчет статистики за год по месяцам для каждой доски.
+     * Доска выводится под названием из самой поздней записи, поэтому после переименования доски статистика не дублируется
+     * @param records
+     */
+    public static aggregate(records: IStatisticStoreRecord[]): IServerApiRequestRes {
+        const res: IServerApiRequestRes = {data: {}, total: {}};
+        const latest: Record<string, IStatisticStoreRecord> = {};
+        records.forEach((record) => {
+            const key = ServerProtocol.getBoardKey(record);
+            if (!latest[key] || ServerProtocol._getTime(record) >= ServerProtocol._getTime(latest[key])) {
+                latest[key] = record;
+            }
+        });
+        const add = (statistic: ITrebisStatistic, value: ITrebisStatistic) => {
+            statistic.red += value.red;
+            statistic.yellow += value.yellow;
+            statistic.blue += value.blue;
+            statistic.green += value.green;
+        };
+        records.forEach((record) => {
+            const name = latest[ServerProtocol.getBoardKey(record)].name;
+            if (!res.data[name]) {
+                res.data[name] = {};
+                res.total[name] = {red: 0, yellow: 0, blue: 0, green: 0};
+            }
+            if (!res.data[name][record.month]) {
+                res.data[name][record.month] = {red: 0, yellow: 0, blue: 0, green: 0};
+            }
+            add(res.data[name][record.month], record.statistic);
+            add(res.total[name], record.statistic);
+        });
+        return res;
+    }
+
+    /**
+     * Проверка идентификатора рабочего пространства. Сервер использует его в пути к файлу,
+     * поэтому идентификатор не может быть "." или ".." и содержать разделители пути
+     * @param value
+     */
+    public static isOrgId(value: unknown): boolean {
+        return ServerProtocol._isString(value) && !/^\.{1,2}$/.test(value as string) && !/[\/\\]/.test(value as string);
+    }
+
+    protected static _getTime(record: IStatisticStoreRecord): number {
+        return new Date(record.year, record.month, record.day).getTime();
+    }
+
+    protected static _isYear(value: unknown): boolean {
+        return /^\d{4}$/.test(`${value}`);
+    }
+
+    protected static _isString(value: unknown): boolean {
+        return typeof value === 'string' && value.length > 0;
+    }
+
+    protected static _validateDays(data: unknown): string {
+        if (!data || typeof data !== 'object') {
+            return 'Не указана статистика по дням';
+        }
+        for (const [year, months] of Object.entries(data)) {
+            if (!ServerProtocol._isYear(year)) {
+                return `Некорректный год: ${year}`;
+            }
+            for (const [month, days] of Object.entries(months || {})) {
+                for (const [day, statistic] of Object.entries(days || {})) {
+                    const isValid = statistic && ServerProtocol.COLORS.every((color) => {
+                        return Number.isInteger(statistic[color]) && statistic[color] >= 0;
+                    });
+                    if (!isValid) {
+                        return `Некорректная статистика за ${year}-${month}-${day}`;
+                    }
+                }
+            }
+        }
+        return null;
+    }
+}
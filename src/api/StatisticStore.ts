@@ -0,0 +1,76 @@
+import {TrebisSettings} from "../TrebisSettings";
+import {ServerApi} from "./ServerApi";
+import {TrelloApi} from "./TrelloApi";
+import {IndexedDbStatisticStore} from "./IndexedDbStatisticStore";
+import {TrelloStatisticStore} from "./TrelloStatisticStore";
+import {StatisticUploader} from "./StatisticUploader";
+import {IStatisticStore, IStatisticStoreSettings} from "../interfaces";
+
+/**
+ * Выбор хранилища статистики рабочего пространства.
+ * Хранилище выбирается в настройках: REST сервер, IndexedDB браузера или скрытые карточки на доске trello
+ */
+export class StatisticStore {
+    public static readonly DEFAULT_SETTINGS: IStatisticStoreSettings = {
+        type: 'rest',
+        url: ServerApi.DEFAULT_URL,
+        boardId: null
+    };
+
+    /**
+     * Получение сохраненных настроек хранилища
+     */
+    public static getSettings(): IStatisticStoreSettings {
+        return {...StatisticStore.DEFAULT_SETTINGS, ...(TrebisSettings.get('statisticStore') || {})};
+    }
+
+    /**
+     * Сохранение настроек хранилища
+     * @param settings
+     */
+    public static saveSettings(settings: IStatisticStoreSettings): void {
+        TrebisSettings.set('statisticStore', settings);
+    }
+
+    /**
+     * Получение ключа хранилища. У хранилищ одного типа с разным адресом или доской ключи отличаются
+     * @param settings Если не указаны, то используются сохраненные настройки
+     */
+    public static getKey(settings: IStatisticStoreSettings = null): string {
+        settings = settings || StatisticStore.getSettings();
+        switch (settings.type) {
+            case 'indexeddb':
+                return settings.type;
+            case 'trello':
+                return `${settings.type}:${settings.boardId}`;
+            default:
+                return `${settings.type}:${settings.url || ServerApi.DEFAULT_URL}`;
+        }
+    }
+
+    /**
+     * Создание отправки статистики в хранилище согласно сохраненным настройкам
+     * @param trello
+     */
+    public static createUploader(trello: TrelloApi): StatisticUploader {
+        const settings = StatisticStore.getSettings();
+        return new StatisticUploader(StatisticStore.create(trello, settings), StatisticStore.getKey(settings));
+    }
+
+    /**
+     * Создание хранилища согласно настройкам
+     * @param trello Используется хранилищем в trello
+     * @param settings Если не указаны, то используются сохраненные настройки
+     */
+    public static create(trello: TrelloApi, settings: IStatisticStoreSettings = null): IStatisticStore {
+        settings = settings || StatisticStore.getSettings();
+        switch (settings.type) {
+            case 'indexeddb':
+                return new IndexedDbStatisticStore();
+            case 'trello':
+                return new TrelloStatisticStore(trello, settings.boardId);
+            default:
+                return new ServerApi(settings.url || ServerApi.DEFAULT_URL);
+        }
+    }
+}
@@ -0,0 +1,249 @@
+import {TREBIS as utils} from "../utils";
+import {ServerProtocol} from "./ServerProtocol";
+import {
+    IRequestSend,
+    IServerApiData,
+    IStatisticStore,
+    IStatisticUploadQueueItem,
+    ITrebisStatistic,
+    ITrebisStatisticDays
+} from "../interfaces";
+
+type TDayCallback = (statistic: ITrebisStatistic, year: string, month: string, day: string) => void;
+
+/**
+ * Отправка статистики в хранилище.
+ * Для каждого отправленного дня сохраняется хэш статистики, поэтому не изменившиеся дни повторно не отправляются.
+ * Хэши хранятся отдельно для каждой доски каждого хранилища, чтобы при отправке перезаписывались только хэши этой доски.
+ * Статистику, которую не удалось отправить, сохраняем в очередь и отправляем повторно при следующей отправке
+ */
+export class StatisticUploader {
+    public static readonly HASHES_KEY = 'statistic-hashes';
+    public static readonly QUEUE_KEY = 'statistic-queue';
+    /**
+     * Максимальное количество сохраненных хэшей одной доски
+     */
+    public static readonly MAX_HASHES = 1000;
+    /**
+     * Максимальное количество досок в очереди
+     */
+    public static readonly MAX_QUEUE = 100;
+
+    public store: IStatisticStore;
+    /**
+     * Ключ хранилища. Хэши и очередь у каждого хранилища свои
+     */
+    public storeKey: string;
+
+    /**
+     * Выполняемая повторная отправка. Общая для всех экземпляров, чтобы при параллельном получении статистики
+     * по нескольким доскам очередь отправлялась только один раз
+     */
+    protected static _retrying: Promise<number> = null;
+
+    public constructor(store: IStatisticStore, storeKey: string) {
+        this.store = store;
+        this.storeKey = storeKey;
+    }
+
+    /**
+     * Получение хэша статистики за день
+     * @param statistic
+     */
+    public static getHash(statistic: ITrebisStatistic): string {
+        const members = statistic.members || {};
+        const value = [statistic.red, statistic.yellow, statistic.blue, statistic.green].join(',') + '|' +
+            Object.keys(members).sort().map((username) => {
+                const {red, yellow, blue, green} = members[username];
+                return `${username}:${red},${yellow},${blue},${green}`;
+            }).join(';');
+        let hash = 0;
+        for (let i = 0; i < value.length; i++) {
+            hash = (hash * 31 + value.charCodeAt(i)) % 4294967296;
+        }
+        return hash.toString(36);
+    }
+
+    /**
+     * Получение очереди статистики, которую не удалось отправить
+     */
+    public static getQueue(): IStatisticUploadQueueItem[] {
+        return StatisticUploader._read<IStatisticUploadQueueItem[]>(StatisticUploader.QUEUE_KEY) || [];
+    }
+
+    /**
+     * Удаление хэшей отправленной статистики. После этого вся статистика отправляется в хранилище заново,
+     * например если хранилище было очищено или сервер заменен на новый с тем же адресом
+     * @param storeKey Ключ хранилища. Если не указан, то удаляются хэши всех хранилищ
+     */
+    public static resetHashes(storeKey: string = null): void {
+        const prefix = `${utils.STORAGE_PREFIX}${StatisticUploader.HASHES_KEY}:${storeKey === null ? '' : `${storeKey}|`}`;
+        const storage = utils.getStorage();
+        const keys: string[] = [];
+        for (let i = 0; i < storage.length; i++) {
+            const key = storage.key(i);
+            if (key?.indexOf(prefix) === 0) {
+                keys.push(key);
+            }
+        }
+        keys.forEach(key => storage.removeItem(key));
+        StatisticUploader._removeLegacyHashes();
+    }
+
+    /**
+     * Отправка статистики доски. Перед отправкой повторно отправляется статистика из очереди
+     * @param data
+     */
+    public async upload(data: IServerApiData): Promise<IRequestSend> {
+        await this.retry();
+        const changed = this._getChanged(data);
+        if (!changed) {
+            return {status: true};
+        }
+        const res = await this.store.save(changed);
+        if (res.status) {
+            this._saveHashes(changed);
+        } else {
+            this._enqueue(changed);
+        }
+        return res;
+    }
+
+    /**
+     * Повторная отправка статистики из очереди
+     * @return Количество досок, статистику которых снова не удалось отправить
+     */
+    public retry(): Promise<number> {
+        if (!StatisticUploader._retrying) {
+            StatisticUploader._retrying = this._retry().finally(() => {
+                StatisticUploader._retrying = null;
+            });
+        }
+        return StatisticUploader._retrying;
+    }
+
+    protected async _retry(): Promise<number> {
+        const items = StatisticUploader.getQueue().filter(item => item.storeKey === this.storeKey);
+        for (const [i, item] of items.entries()) {
+            const res = await this.store.save(item.data);
+            // Очередь перечитываем, так как пока шла отправка в нее могла добавиться статистика
+            const queue = StatisticUploader.getQueue();
+            const index = queue.findIndex(queueItem => StatisticUploader._isSameBoard(queueItem, item));
+            if (res.status) {
+                this._saveHashes(item.data);
+                if (index !== -1 && queue[index].date === item.date) {
+                    queue.splice(index, 1);
+                }
+                StatisticUploader._write(StatisticUploader.QUEUE_KEY, queue);
+            } else {
+                // Хранилище недоступно, остальную статистику попробуем отправить в следующий раз
+                return items.length - i;
+            }
+        }
+        return 0;
+    }
+
+    /**
+     * Получение статистики только за изменившиеся дни. Если ничего не изменилось, то null
+     * @param data
+     */
+    protected _getChanged(data: IServerApiData): IServerApiData {
+        const hashes = StatisticUploader._read<Record<string, string>>(this._getHashesKey(data)) || {};
+        const days: ITrebisStatisticDays = {};
+        let isChanged = false;
+        StatisticUploader._forEachDay(data, (statistic, year, month, day) => {
+            if (hashes[`${year}-${month}-${day}`] !== StatisticUploader.getHash(statistic)) {
+                days[year] = days[year] || {};
+                days[year][month] = days[year][month] || {};
+                days[year][month][day] = statistic;
+                isChanged = true;
+            }
+        });
+        return isChanged ? {...data, data: days} : null;
+    }
+
+    protected _saveHashes(data: IServerApiData): void {
+        const hashesKey = this._getHashesKey(data);
+        const hashes = StatisticUploader._read<Record<string, string>>(hashesKey) || {};
+        StatisticUploader._forEachDay(data, (statistic, year, month, day) => {
+            // Удаляем, чтобы ключ переместился в конец и самые старые хэши удалялись первыми
+            const hashKey = `${year}-${month}-${day}`;
+            delete hashes[hashKey];
+            hashes[hashKey] = StatisticUploader.getHash(statistic);
+        });
+        const keys = Object.keys(hashes);
+        keys.slice(0, Math.max(keys.length - StatisticUploader.MAX_HASHES, 0)).forEach((key) => {
+            delete hashes[key];
+        });
+        StatisticUploader._write(hashesKey, hashes);
+        StatisticUploader._removeLegacyHashes();
+    }
+
+    /**
+     * Получение ключа, под которым хранятся хэши доски
+     * @param data
+     */
+    protected _getHashesKey(data: IServerApiData): string {
+        return `${StatisticUploader.HASHES_KEY}:${this.storeKey}|${data.orgId}|${ServerProtocol.getBoardKey(data)}`;
+    }
+
+    /**
+     * Удаление хэшей, которые раньше хранились одним ключом для всех хранилищ
+     */
+    protected static _removeLegacyHashes(): void {
+        utils.removeLocalStorage(StatisticUploader.HASHES_KEY);
+    }
+
+    /**
+     * Добавление статистики в очередь. Статистика одной доски объединяется, более новая заменяет старую
+     * @param data
+     */
+    protected _enqueue(data: IServerApiData): void {
+        const queue = StatisticUploader.getQueue();
+        const item: IStatisticUploadQueueItem = {storeKey: this.storeKey, date: Date.now(), data};
+        const index = queue.findIndex(queueItem => StatisticUploader._isSameBoard(queueItem, item));
+        if (index !== -1) {
+            const days: ITrebisStatisticDays = queue[index].data.data || {};
+            StatisticUploader._forEachDay(data, (statistic, year, month, day) => {
+                days[year] = days[year] || {};
+                days[year][month] = days[year][month] || {};
+                days[year][month][day] = statistic;
+            });
+            item.data = {...data, data: days};
+            queue.splice(index, 1);
+        }
+        queue.push(item);
+        StatisticUploader._write(StatisticUploader.QUEUE_KEY, queue.slice(-StatisticUploader.MAX_QUEUE));
+    }
+
+    protected static _isSameBoard(item1: IStatisticUploadQueueItem, item2: IStatisticUploadQueueItem): boolean {
+        return item1.storeKey === item2.storeKey && item1.data.orgId === item2.data.orgId &&
+            ServerProtocol.getBoardKey(item1.data) === ServerProtocol.getBoardKey(item2.data);
+    }
+
+    protected static _forEachDay(data: IServerApiData, cb: TDayCallback): void {
+        for (const year of Object.keys(data.data || {})) {
+            for (const month of Object.keys(data.data[year])) {
+                for (const day of Object.keys(data.data[year][month])) {
+                    cb(data.data[year][month][day], year, month, day);
+                }
+            }
+        }
+    }
+
+    protected static _read<T>(key: string): T {
+        const value = utils.getLocalStorage(key);
+        if (value) {
+            try {
+                return JSON.parse(value);
+            } catch (e) {
+                utils.getLogger().warn(e.message);
+            }
+        }
+        return null;
+    }
+
+    protected static _write<T>(key: string, value: T): void {
+        utils.setLocalStorage(key, JSON.stringify(value));
+    }
+}
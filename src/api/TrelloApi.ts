@@ -1,13 +1,17 @@
 import {Request} from "./Request";
+import {TrelloJournal} from "./TrelloJournal";
+import {RequestScheduler} from "./RequestScheduler";
 import {TREBIS as utils} from "../utils";
 import {
+    IRequestParams,
     IRequestSend,
-    ITrebisLabel,
+    ITrelloLabel,
     ITrelloCardData,
     ITrelloData,
     ITrelloListData,
     ITrelloOrg,
     IGetParams,
+    ITrelloMember,
     ITrelloMembers,
     ITrelloBoard
 } from "../interfaces";
@@ -16,11 +20,27 @@ import {
  * Класс отвечающий за работу с trello api
  */
 export class TrelloApi {
-    private _request: Request;
+    /**
+     * Планировщик, общий для всех экземпляров. Нужен для соблюдения ограничений trello на количество запросов
+     */
+    public static scheduler: RequestScheduler = new RequestScheduler();
+    /**
+     * Максимальное количество запросов в одном batch запросе
+     */
+    public static readonly BATCH_SIZE = 10;
+    /**
+     * Вызывается, когда trello отклонил запрос с кодом 401: токен истек или был отозван
+     */
+    public static onUnauthorized: (api: TrelloApi) => void = null;
+
     public key: string;
     public token: string;
     public isSendForApi: boolean = false;
     public trelloToken: string;
+    /**
+     * Журнал изменений. Изменения записываются только во время действия пользователя
+     */
+    public journal: TrelloJournal;
     /**
      * Можно отправлять запросы на trello.com не используя api.
      * По сути разницы нет, только в 1 случае нам не нужно беспокоиться о том, что нужно вводить ключ и токен
@@ -29,8 +49,57 @@ export class TrelloApi {
     public readonly API_URL = 'https://api.trello.com';
 
     public constructor() {
-        this._request = new Request();
-        this._request.header = Request.HEADER_AP_JSON;
+        this.journal = new TrelloJournal();
+    }
+
+    /**
+     * Отправка запроса через общий планировщик.
+     * Для каждого запроса создается свой экземпляр Request, поэтому методы можно вызывать параллельно
+     * @param params Описание запроса
+     */
+    protected async _send(params: IRequestParams): Promise<IRequestSend> {
+        const request = Request.create({...params, header: {...Request.HEADER_AP_JSON, ...(params.header || {})}});
+        const res = await TrelloApi.scheduler.schedule(() => request.send());
+        if (res.error?.type === 'http' && res.error.status === 401 && TrelloApi.onUnauthorized) {
+            TrelloApi.onUnauthorized(this);
+        }
+        return res;
+    }
+
+    /**
+     * Отправка GET запроса. Возвращает полученные данные
+     * @param url
+     */
+    protected async _get(url: string): Promise<any> {
+        const send = await this._send({url});
+        return send.data;
+    }
+
+    /**
+     * Отправка PUT запроса
+     * @param url
+     * @param data
+     */
+    protected _put(url: string, data: ITrelloData): Promise<IRequestSend> {
+        return this._send({
+            url,
+            method: 'PUT',
+            post: this._getPost(data),
+            header: {Accept: 'application/json'}
+        });
+    }
+
+    /**
+     * Запись успешно выполненной операции в журнал
+     * @param res Результат выполнения операции
+     * @param method Выполненный метод
+     * @param inverseMethod Метод, отменяющий операцию
+     * @param args Параметры метода отмены
+     */
+    protected _addJournal(res: IRequestSend, method: string, inverseMethod: string, args: any[]): void {
+        if (res.status && this.journal.isRecording()) {
+            this.journal.add(method, {method: inverseMethod, args});
+        }
     }
 
     protected _getUrl(): string {
@@ -57,36 +126,37 @@ export class TrelloApi {
                 query = prefix + getString;
             }
         }
-        this._request.post = null;
         return query;
     }
 
     /**
      * Получение информации по доступным рабочим пространствам
      */
-    public async getMembers(): Promise<ITrelloMembers> {
-        this._request.url = `${this._getUrl()}/1/Members/me?organizations=all&organization_fields=name%2CdisplayName%2Cmemberships%2Cdesc${this._getQuery()}`;
-        const send = await this._request.send();
-        return send.data;
+    public getMembers(): Promise<ITrelloMembers> {
+        return this._get(`${this._getUrl()}/1/Members/me?organizations=all&organization_fields=name%2CdisplayName%2Cmemberships%2Cdesc${this._getQuery()}`);
     }
 
     /**
      * Получаем информацию об организации включая доступные доски
      * @param orgName
      */
-    public async getOrganizations(orgName: string): Promise<ITrelloOrg> {
-        this._request.url = `${this._getUrl()}/1/Organizations/${orgName}?boards=open&board_fields=name%2CshortLink%2CshortUrl&fields=name${this._getQuery()}`;
-        const send = await this._request.send();
-        return send.data;
+    public getOrganizations(orgName: string): Promise<ITrelloOrg> {
+        return this._get(`${this._getUrl()}/1/Organizations/${orgName}?boards=open&board_fields=name%2CshortLink%2CshortUrl&fields=name${this._getQuery()}`);
+    }
+
+    /**
+     * Получение участников рабочего пространства
+     * @param orgId
+     */
+    public getOrgMembers(orgId: string): Promise<ITrelloMember[]> {
+        return this._get(`${this._getUrl()}/1/organizations/${orgId}/members?fields=username%2CfullName${this._getQuery()}`);
     }
 
     /**
      * Получение всех досок пользователя
      */
-    public async getBoards(): Promise<ITrelloBoard[]> {
-        this._request.url = `${this._getUrl()}/1/members/me/boards?fields=name%2CshortLink${this._getQuery()}`;
-        const send = await this._request.send();
-        return send.data;
+    public getBoards(): Promise<ITrelloBoard[]> {
+        return this._get(`${this._getUrl()}/1/members/me/boards?fields=name%2CshortLink${this._getQuery()}`);
     }
 
     /**
@@ -94,10 +164,63 @@ export class TrelloApi {
      * @param boardId
      * @param data
      */
-    public async getLists(boardId: string, data: IGetParams = {}): Promise<ITrelloListData[]> {
-        this._request.url = `${this._getUrl()}/1/boards/${boardId}/lists${this._getQuery(data, '?')}`;
-        const send = await this._request.send();
-        return send.data;
+    public getLists(boardId: string, data: IGetParams = {}): Promise<ITrelloListData[]> {
+        return this._get(`${this._getUrl()}/1/boards/${boardId}/lists${this._getQuery(data, '?')}`);
+    }
+
+    /**
+     * Выполнение нескольких GET запросов за один запрос к trello (/1/batch).
+     * Маршруты указываются без версии api, например /boards/{id}/lists?cards=open.
+     * Маршруты разбиваются на группы по BATCH_SIZE, результат возвращается в порядке маршрутов
+     * @param routes
+     */
+    public async batch(routes: string[]): Promise<IRequestSend[]> {
+        const groups: string[][] = [];
+        for (let i = 0; i < routes.length; i += TrelloApi.BATCH_SIZE) {
+            groups.push(routes.slice(i, i + TrelloApi.BATCH_SIZE));
+        }
+        const groupsRes = await Promise.all(groups.map(async (group): Promise<IRequestSend[]> => {
+            const urls = group.map(route => encodeURIComponent(route)).join(',');
+            const send = await this._send({url: `${this._getUrl()}/1/batch?urls=${urls}${this._getQuery()}`});
+            return group.map((route, index) => {
+                const item = send.status && Array.isArray(send.data) ? send.data[index] : null;
+                if (item && item['200'] !== undefined) {
+                    return {status: true, data: item['200']};
+                }
+                return {status: false, err: item?.message || send.err || `Не удалось получить данные с ${route}`};
+            });
+        }));
+        return [].concat(...groupsRes);
+    }
+
+    /**
+     * Получение списков сразу для нескольких досок через batch запрос
+     * @param boardIds
+     * @param data
+     * @return Списки по идентификатору доски. Если списки доски получить не удалось, то значение null
+     */
+    public async getListsBatch(boardIds: string[], data: IGetParams = {}): Promise<Record<string, ITrelloListData[]>> {
+        const query = Request.getQueryString(data);
+        const res = await this.batch(boardIds.map(boardId => `/boards/${boardId}/lists${query ? `?${query}` : ''}`));
+        const lists: Record<string, ITrelloListData[]> = {};
+        boardIds.forEach((boardId, index) => {
+            lists[boardId] = res[index].status ? res[index].data : null;
+        });
+        return lists;
+    }
+
+    /**
+     * Получение карточек сразу для нескольких списков через batch запрос
+     * @param listIds
+     * @return Карточки по идентификатору списка. Если карточки списка получить не удалось, то значение null
+     */
+    public async getCardsBatch(listIds: string[]): Promise<Record<string, ITrelloCardData[]>> {
+        const res = await this.batch(listIds.map(listId => `/lists/${listId}/cards?fields=all`));
+        const cards: Record<string, ITrelloCardData[]> = {};
+        listIds.forEach((listId, index) => {
+            cards[listId] = res[index].status ? res[index].data : null;
+        });
+        return cards;
     }
 
     /**
@@ -107,13 +230,18 @@ export class TrelloApi {
      * @param listId
      */
     public async deleteList(listId: string): Promise<IRequestSend> {
-        this._request.header['Accept'] = 'application/json';
-        this._request.customRequest = 'PUT';
-        this._request.url = `${this._getUrl()}/1/lists/${listId}/`;
-        this._request.post = this._getPost({closed: true});
-        const res = await this._request.send();
-        this._request.customRequest = null;
-        this._request.header = Request.HEADER_AP_JSON;
+        const res = await this._put(`${this._getUrl()}/1/lists/${listId}/`, {closed: true});
+        this._addJournal(res, 'deleteList', 'restoreList', [listId]);
+        return res;
+    }
+
+    /**
+     * Восстановление скрытого списка
+     * @param listId
+     */
+    public async restoreList(listId: string): Promise<IRequestSend> {
+        const res = await this._put(`${this._getUrl()}/1/lists/${listId}/`, {closed: false});
+        this._addJournal(res, 'restoreList', 'deleteList', [listId]);
         return res;
     }
 
@@ -122,33 +250,33 @@ export class TrelloApi {
      * @param data
      */
     public async addList(data: ITrelloData): Promise<IRequestSend> {
-        this._request.post = this._getPost({
-            pos: "top",
-            name: data.name || utils.date(),
-            idBoard: data.idBoard
+        const res = await this._send({
+            url: this._getUrl() + "/1/lists",
+            post: this._getPost({
+                pos: data.pos || "top",
+                name: data.name || utils.date(),
+                idBoard: data.idBoard
+            })
         });
-        this._request.url = this._getUrl() + "/1/lists";
-        return await this._request.send();
+        this._addJournal(res, 'addList', 'deleteList', [res.data?.id]);
+        return res;
     }
 
     /**
      * Получение всех карточек из списка
      * @param listId
+     * @param data Дополнительные параметры, например checklists: 'all'
      */
-    public async getCards(listId: string): Promise<ITrelloCardData[]> {
-        this._request.url = `${this._getUrl()}/1/lists/${listId}/cards?fields=all${this._getQuery()}`;
-        const send = await this._request.send();
-        return send.data;
+    public getCards(listId: string, data: IGetParams = {}): Promise<ITrelloCardData[]> {
+        return this._get(`${this._getUrl()}/1/lists/${listId}/cards?fields=all${this._getQuery(data)}`);
     }
 
     /**
      * Получение всех меток доски
      * @param boardId
      */
-    public async getLabels(boardId: string): Promise<ITrebisLabel[]> {
-        this._request.url = `${this._getUrl()}/1/boards/${boardId}/labels${this._getQuery({}, '?')}`;
-        const send = await this._request.send();
-        return send.data;
+    public getLabels(boardId: string): Promise<ITrelloLabel[]> {
+        return this._get(`${this._getUrl()}/1/boards/${boardId}/labels${this._getQuery({}, '?')}`);
     }
 
     /**
@@ -157,32 +285,67 @@ export class TrelloApi {
      * @param labelId
      */
     public async addLabels(cardId: string, labelId: string): Promise<IRequestSend> {
-        this._request.url = `${this._getUrl()}/1/cards/${cardId}/idLabels`;
-        this._request.post = this._getPost({value: labelId});
-        return await this._request.send();
+        const res = await this._send({
+            url: `${this._getUrl()}/1/cards/${cardId}/idLabels`,
+            post: this._getPost({value: labelId})
+        });
+        this._addJournal(res, 'addLabels', 'deleteLabels', [cardId, labelId]);
+        return res;
     }
 
+    /**
+     * Удаление метки у карточки
+     * @param cardId
+     * @param labelId
+     */
     public async deleteLabels(cardId: string, labelId: string): Promise<IRequestSend> {
-        this._request.customRequest = "DELETE";
-        this._request.url = `${this._getUrl()}/1/cards/${cardId}/idLabels/${labelId}${this._getQuery({}, '?')}`;
-        const res = await this._request.send();
-        this._request.customRequest = null;
+        const res = await this._send({
+            url: `${this._getUrl()}/1/cards/${cardId}/idLabels/${labelId}${this._getQuery({}, '?')}`,
+            method: 'DELETE'
+        });
+        this._addJournal(res, 'deleteLabels', 'addLabels', [cardId, labelId]);
         return res;
     }
 
+    /**
+     * Получение карточки
+     * @param cardId
+     */
+    public getCard(cardId: string): Promise<ITrelloCardData> {
+        return this._get(`${this._getUrl()}/1/cards/${cardId}${this._getQuery({}, '?')}`);
+    }
+
+    /**
+     * Получение карточек доски
+     * @param boardId
+     * @param filter Какие карточки получить: open, closed, all
+     * @param data
+     */
+    public getBoardCards(boardId: string, filter: string = 'open', data: IGetParams = {}): Promise<ITrelloCardData[]> {
+        return this._get(`${this._getUrl()}/1/boards/${boardId}/cards/${filter}${this._getQuery(data, '?')}`);
+    }
+
     /**
      * Обновление карточки
      * @param cardId
      * @param data
      */
-    public async updateCard(cardId: string, data: ITrelloData = {}): Promise<ITrelloCardData> {
-        this._request.header['Accept'] = 'application/json';
-        this._request.customRequest = 'PUT';
-        this._request.url = `${this._getUrl()}/1/cards/${cardId}`;
-        this._request.post = this._getPost(data);
-        const res = await this._request.send();
-        this._request.customRequest = null;
-        this._request.header = Request.HEADER_AP_JSON;
+    public async updateCard(cardId: string, data: ITrelloData = {}): Promise<IRequestSend> {
+        // Для отмены изменений запоминаем предыдущие значения полей
+        let oldData: ITrelloData = null;
+        if (this.journal.isRecording()) {
+            const card = await this.getCard(cardId);
+            if (card) {
+                oldData = {};
+                Object.keys(data).forEach((key) => {
+                    oldData[key] = card[key];
+                });
+            }
+        }
+        const res = await this._put(`${this._getUrl()}/1/cards/${cardId}`, data);
+        if (oldData) {
+            this._addJournal(res, 'updateCard', 'updateCard', [cardId, oldData]);
+        }
         return res;
     }
 
@@ -190,10 +353,49 @@ export class TrelloApi {
      * Добавление карточки
      * @param data
      */
-    public async addCard(data: ITrelloData): Promise<ITrelloCardData> {
-        this._request.url = this._getUrl() + "/1/cards";
-        this._request.post = this._getPost(data);
-        return await this._request.send();
+    public async addCard(data: ITrelloData): Promise<IRequestSend> {
+        const res = await this._send({
+            url: this._getUrl() + "/1/cards",
+            post: this._getPost(data)
+        });
+        this._addJournal(res, data.idCardSource ? 'copyCard' : 'addCard', 'deleteCard', [res.data?.id]);
+        return res;
+    }
+
+    /**
+     * Добавление чек-листа в карточку
+     * @param cardId
+     * @param name
+     */
+    public addChecklist(cardId: string, name: string): Promise<IRequestSend> {
+        return this._send({
+            url: `${this._getUrl()}/1/cards/${cardId}/checklists`,
+            post: this._getPost({name})
+        });
+    }
+
+    /**
+     * Добавление пункта в чек-лист
+     * @param checklistId
+     * @param name
+     * @param checked
+     */
+    public addCheckItem(checklistId: string, name: string, checked: boolean = false): Promise<IRequestSend> {
+        return this._send({
+            url: `${this._getUrl()}/1/checklists/${checklistId}/checkItems`,
+            post: this._getPost({name, checked})
+        });
+    }
+
+    /**
+     * Удаление карточки
+     * @param cardId
+     */
+    public deleteCard(cardId: string): Promise<IRequestSend> {
+        return this._send({
+            url: `${this._getUrl()}/1/cards/${cardId}${this._getQuery({}, '?')}`,
+            method: 'DELETE'
+        });
     }
 
     /**
@@ -201,11 +403,14 @@ export class TrelloApi {
      * @param data
      * @param copyCardId
      */
-    public async copyCard(data: ITrelloData, copyCardId: string): Promise<ITrelloCardData> {
+    public copyCard(data: ITrelloData, copyCardId: string): Promise<IRequestSend> {
         if (copyCardId) {
-            data.idCardSource = copyCardId;
-            data.keepFromSource = ["start", "due", "comments", "attachments", "checklists", "members", "stickers"];
+            data = {
+                ...data,
+                idCardSource: copyCardId,
+                keepFromSource: ["start", "due", "comments", "attachments", "checklists", "members", "stickers"]
+            };
         }
-        return await this.addCard(data);
+        return this.addCard(data);
     }
 }
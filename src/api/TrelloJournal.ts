@@ -0,0 +1,137 @@
+import {TREBIS as utils} from "../utils";
+import {ITrelloJournalInverse, ITrelloJournalRun} from "../interfaces";
+
+/**
+ * Журнал изменений, выполненных в trello за одно действие пользователя.
+ * Для каждой операции сохраняется обратная операция, что позволяет отменить все действие целиком.
+ * Журнал хранится в localStorage, поэтому переживает перезагрузку страницы
+ */
+export class TrelloJournal {
+    public static readonly STORAGE_KEY = 'journal';
+    /**
+     * Максимальное количество хранимых действий
+     */
+    public static readonly MAX_RUNS = 10;
+
+    protected _run: ITrelloJournalRun = null;
+    protected _isPaused: boolean = false;
+
+    /**
+     * Получение всех сохраненных действий
+     */
+    public static getRuns(): ITrelloJournalRun[] {
+        const runs = utils.getLocalStorage(TrelloJournal.STORAGE_KEY);
+        if (runs) {
+            try {
+                return JSON.parse(runs);
+            } catch (e) {
+                utils.getLogger().warn(e.message);
+            }
+        }
+        return [];
+    }
+
+    protected static _saveRuns(runs: ITrelloJournalRun[]): void {
+        utils.setLocalStorage(TrelloJournal.STORAGE_KEY, JSON.stringify(runs.slice(-TrelloJournal.MAX_RUNS)));
+    }
+
+    /**
+     * Получение последнего действия
+     * @param boardId Если указан, то последнее действие на этой доске
+     */
+    public static getLastRun(boardId: string = null): ITrelloJournalRun {
+        const runs = TrelloJournal.getRuns();
+        const index = TrelloJournal._getLastIndex(runs, boardId);
+        return index === -1 ? null : runs[index];
+    }
+
+    protected static _getLastIndex(runs: ITrelloJournalRun[], boardId: string): number {
+        for (let i = runs.length - 1; i >= 0; i--) {
+            if (boardId === null || runs[i].boardId === boardId) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Ведется ли запись операций
+     */
+    public isRecording(): boolean {
+        return !!this._run && !this._isPaused;
+    }
+
+    /**
+     * Начало записи действия пользователя
+     * @param name Название действия
+     * @param boardId
+     */
+    public begin(name: string, boardId: string = null): void {
+        this._run = {
+            id: `${Date.now()}`,
+            name,
+            boardId,
+            date: Date.now(),
+            operations: []
+        };
+    }
+
+    /**
+     * Добавление операции в журнал.
+     * Журнал сохраняется сразу, чтобы не потерять операции при перезагрузке страницы посреди действия
+     * @param method Выполненный метод
+     * @param inverse Обратная операция
+     */
+    public add(method: string, inverse: ITrelloJournalInverse): void {
+        if (!this.isRecording()) {
+            return;
+        }
+        this._run.operations.push({method, inverse, date: Date.now()});
+        const runs = TrelloJournal.getRuns().filter(run => run.id !== this._run.id);
+        runs.push(this._run);
+        TrelloJournal._saveRuns(runs);
+    }
+
+    /**
+     * Завершение записи действия пользователя
+     */
+    public end(): void {
+        this._run = null;
+    }
+
+    /**
+     * Отмена последнего действия. Обратные операции выполняются в обратном порядке.
+     * Операции, которые не удалось отменить, остаются в журнале, чтобы отмену можно было повторить.
+     * Возвращает количество операций, которые не удалось отменить, либо null, если отменять нечего
+     * @param trello Объект, у которого вызываются методы отмены
+     * @param boardId Если указан, то отменяется последнее действие на этой доске
+     */
+    public async undoLast(trello: object, boardId: string = null): Promise<number> {
+        const runs = TrelloJournal.getRuns();
+        const index = TrelloJournal._getLastIndex(runs, boardId);
+        if (index === -1) {
+            return null;
+        }
+        const run = runs[index];
+        const failed: ITrelloJournalRun['operations'] = [];
+        this._isPaused = true;
+        try {
+            for (const operation of run.operations.slice().reverse()) {
+                const method = trello[operation.inverse.method];
+                const res = typeof method === 'function' ? await method.apply(trello, operation.inverse.args) : null;
+                if (!res || res.status === false) {
+                    failed.unshift(operation);
+                }
+            }
+        } finally {
+            this._isPaused = false;
+        }
+        if (failed.length) {
+            runs[index] = {...run, operations: failed};
+        } else {
+            runs.splice(index, 1);
+        }
+        TrelloJournal._saveRuns(runs);
+        return failed.length;
+    }
+}
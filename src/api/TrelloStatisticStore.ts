@@ -0,0 +1,144 @@
+import {TrelloApi} from "./TrelloApi";
+import {TREBIS as utils} from "../utils";
+import {ServerProtocol} from "./ServerProtocol";
+import {
+    IRequestSend,
+    IServerApiData,
+    IServerApiRequest,
+    IStatisticStore,
+    IStatisticStoreRecord,
+    ITrelloCardData,
+    ITrelloListData
+} from "../interfaces";
+
+/**
+ * Содержимое карточки со статистикой доски за год
+ */
+interface ITrelloStatisticCard {
+    name: string;
+    data: Record<string, Record<string, number[]>>;
+}
+
+/**
+ * Хранение статистики рабочего пространства в самом trello.
+ * Статистика каждой доски за год хранится в архивной карточке на выбранной доске.
+ * Название карточки: trebis_statistic:{orgId}:{год}:{идентификатор доски}, в описании хранится json вида
+ * {"name": "название доски", "data": {"месяц": {"день": [red, yellow, green, blue]}}}.
+ * Карточки, созданные до передачи идентификатора доски, называются по названию доски и хранят только data
+ */
+export class TrelloStatisticStore implements IStatisticStore {
+    public static readonly CARD_PREFIX = 'trebis_statistic';
+
+    public trello: TrelloApi;
+    public boardId: string;
+
+    public constructor(trello: TrelloApi, boardId: string) {
+        this.trello = trello;
+        this.boardId = boardId;
+    }
+
+    public async save(data: IServerApiData): Promise<IRequestSend> {
+        if (!this.boardId) {
+            return {status: false, err: 'Не выбрана доска для хранения статистики'};
+        }
+        const cards = await this._getCards();
+        if (!cards) {
+            return {status: false, err: 'Не удалось получить карточки со статистикой'};
+        }
+        const years: Record<string, IStatisticStoreRecord[]> = {};
+        ServerProtocol.getRecords(data).forEach((record) => {
+            (years[record.year] = years[record.year] || []).push(record);
+        });
+        for (const year of Object.keys(years)) {
+            const name = TrelloStatisticStore._getCardName(data.orgId, year, ServerProtocol.getBoardKey(data));
+            // Карточка, созданная до передачи идентификатора доски, переименовывается
+            const card = cards.find(item => item.name === name) ||
+                cards.find(item => item.name === TrelloStatisticStore._getCardName(data.orgId, year, data.name));
+            const content = card ? TrelloStatisticStore._parse(card.desc, data.name) : {name: data.name, data: {}};
+            content.name = data.name;
+            // Статистика за день полностью заменяет ранее сохраненную
+            years[year].forEach(({month, day, statistic}) => {
+                content.data[month] = content.data[month] || {};
+                content.data[month][day] = [statistic.red, statistic.yellow, statistic.green, statistic.blue];
+            });
+            const res = card ? await this.trello.updateCard(card.id, {name, desc: JSON.stringify(content)}) :
+                await this._addCard(name, JSON.stringify(content));
+            if (!res.status) {
+                return res;
+            }
+        }
+        return {status: true};
+    }
+
+    public async get(year: string, orgId: string): Promise<IServerApiRequest> {
+        if (!this.boardId) {
+            return {status: false, msg: 'Не выбрана доска для хранения статистики'};
+        }
+        const cards = await this._getCards();
+        if (!cards) {
+            return {status: false, msg: 'Не удалось получить карточки со статистикой'};
+        }
+        const prefix = TrelloStatisticStore._getCardName(orgId, year, '');
+        const records: IStatisticStoreRecord[] = [];
+        cards.filter(card => card.name.indexOf(prefix) === 0).forEach((card) => {
+            const boardId = card.name.slice(prefix.length);
+            const {name, data} = TrelloStatisticStore._parse(card.desc, boardId);
+            for (const month of Object.keys(data)) {
+                for (const day of Object.keys(data[month])) {
+                    const [red, yellow, green, blue] = data[month][day];
+                    records.push({
+                        orgId,
+                        boardId,
+                        name,
+                        year: Number(year),
+                        month: Number(month),
+                        day: Number(day),
+                        statistic: {red, yellow, green, blue}
+                    });
+                }
+            }
+        });
+        return {status: true, res: ServerProtocol.aggregate(records)};
+    }
+
+    protected static _getCardName(orgId: string, year: string, boardKey: string): string {
+        return `${TrelloStatisticStore.CARD_PREFIX}:${orgId}:${year}:${boardKey}`;
+    }
+
+    /**
+     * Разбор описания карточки со статистикой
+     * @param desc
+     * @param name Название доски для карточек, в которых хранится только статистика
+     */
+    protected static _parse(desc: string, name: string): ITrelloStatisticCard {
+        try {
+            const content = JSON.parse(desc || '{}');
+            return content.data ? content : {name, data: content};
+        } catch (e) {
+            utils.getLogger().warn(e.message);
+            return {name, data: {}};
+        }
+    }
+
+    protected async _getCards(): Promise<ITrelloCardData[]> {
+        const cards = await this.trello.getBoardCards(this.boardId, 'closed', {fields: 'name,desc'});
+        return cards ? cards.filter(card => card.name?.indexOf(TrelloStatisticStore.CARD_PREFIX) === 0) : null;
+    }
+
+    /**
+     * Создание карточки со статистикой. Карточка создается в первом списке доски и сразу архивируется
+     * @param name
+     * @param desc
+     */
+    protected async _addCard(name: string, desc: string): Promise<IRequestSend> {
+        const lists: ITrelloListData[] = await this.trello.getLists(this.boardId);
+        if (!lists?.length) {
+            return {status: false, err: 'На доске для хранения статистики нет списков'};
+        }
+        const res = await this.trello.addCard({idList: lists[0].id, name, desc, pos: 'bottom'});
+        if (res.status && res.data?.id) {
+            return await this.trello.updateCard(res.data.id, {closed: true});
+        }
+        return res;
+    }
+}
@@ -0,0 +1,80 @@
+import {TrebisAuth} from "./TrebisAuth";
+import {TREBIS as utils} from "./utils";
+import {ITrebisAuth, TTrebisAuthExpiration, TTrebisAuthScope} from "./interfaces";
+
+/**
+ * Страница авторизации расширения (auth.html).
+ * Без токена в адресе отображается форма с ключом приложения и параметрами авторизации, после отправки формы
+ * пользователь переходит на trello. Trello возвращает пользователя на эту же страницу с токеном в #token=...
+ */
+
+/**
+ * Получение формы авторизации
+ * @param auth
+ * @param message
+ */
+function trebisGetAuthForm(auth: ITrebisAuth, message: string = ''): string {
+    const getOptions = (options: Readonly<Record<string, string>>, value: string) => {
+        return Object.keys(options).map((option) => {
+            return `<option value="${option}" ${option === value ? 'selected' : ''}>${options[option]}</option>`;
+        }).join('');
+    };
+    return `${message}<form action="#" id="trebis_auth-form">` +
+        `<p>Ключ приложения можно получить <a href="${TrebisAuth.APP_KEY_URL}" target="_blank">тут</a>. ` +
+        `В настройках ключа добавьте в Allowed origins адрес <b>${utils.escapeHtml(location.origin)}</b></p>` +
+        '<p><label for="trebis_auth-key">Ключ приложения (key)</label><br>' +
+        `<input type="text" id="trebis_auth-key" style="width:100%" value="${utils.escapeHtml(auth.key || '')}" required></p>` +
+        '<p><label for="trebis_auth-scope">Права</label><br>' +
+        `<select id="trebis_auth-scope" style="width:100%">${getOptions(TrebisAuth.SCOPES, auth.scope)}</select></p>` +
+        '<p><label for="trebis_auth-expiration">Срок действия токена</label><br>' +
+        `<select id="trebis_auth-expiration" style="width:100%">${getOptions(TrebisAuth.EXPIRATIONS, auth.expiration)}</select></p>` +
+        '<p><input type="submit" value="Авторизоваться через trello"></p></form>';
+}
+
+/**
+ * Отображение формы авторизации
+ * @param content
+ * @param auth
+ * @param message
+ */
+function trebisShowAuthForm(content: HTMLElement, auth: ITrebisAuth, message: string = ''): void {
+    content.innerHTML = trebisGetAuthForm(auth, message);
+    const getValue = (id: string) => (document.getElementById(id) as HTMLInputElement | HTMLSelectElement).value;
+    document.getElementById('trebis_auth-form').onsubmit = async (e) => {
+        e.preventDefault();
+        const newAuth: ITrebisAuth = {
+            ...auth,
+            key: getValue('trebis_auth-key').trim(),
+            scope: getValue('trebis_auth-scope') as TTrebisAuthScope,
+            expiration: getValue('trebis_auth-expiration') as TTrebisAuthExpiration
+        };
+        await TrebisAuth.saveAuth(newAuth);
+        location.href = TrebisAuth.getAuthorizeUrl(newAuth, `${location.origin}${location.pathname}`);
+    };
+}
+
+window.onload = async () => {
+    utils.configure({storage: localStorage});
+    const content = document.getElementById('trebis_auth');
+    const auth = await TrebisAuth.getAuth();
+    const hash = location.hash;
+    if (hash) {
+        // Токен не должен оставаться в адресе и истории браузера
+        history.replaceState(null, '', location.pathname);
+        const token = TrebisAuth.parseToken(hash);
+        if (token) {
+            await TrebisAuth.saveAuth({...auth, token, date: Date.now()});
+            content.innerHTML = '<p>Авторизация выполнена. Окно можно закрыть и вернуться в trello.</p>';
+            return;
+        }
+        trebisShowAuthForm(content, auth, '<p style="color:red">Trello не вернул токен: авторизация отменена.</p>');
+        return;
+    }
+    let message = '';
+    if (TrebisAuth.isValid(auth)) {
+        message = '<p>Расширение уже авторизовано. Повторная авторизация заменит текущий токен.</p>';
+    } else if (auth.token) {
+        message = '<p style="color:red">Срок действия токена истек. Авторизуйтесь повторно.</p>';
+    }
+    trebisShowAuthForm(content, auth, message);
+};
@@ -0,0 +1,39 @@
+import {TrebisAutomation} from "./TrebisAutomation";
+
+/**
+ * Фоновый service worker расширения. Запускает автоматический перенос карточек по расписанию
+ * и показывает уведомление с результатом по каждой доске
+ */
+
+chrome.runtime.onInstalled.addListener(() => {
+    TrebisAutomation.schedule();
+});
+
+chrome.runtime.onStartup.addListener(() => {
+    TrebisAutomation.schedule();
+});
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+    if (areaName === 'local' && changes[TrebisAutomation.SETTINGS_KEY]) {
+        TrebisAutomation.schedule();
+    }
+});
+
+chrome.alarms.onAlarm.addListener(async (alarm) => {
+    if (alarm.name !== TrebisAutomation.ALARM_NAME) {
+        return;
+    }
+    try {
+        const results = await TrebisAutomation.run();
+        if (results.length) {
+            chrome.notifications.create(`${TrebisAutomation.ALARM_NAME}_${Date.now()}`, {
+                type: 'basic',
+                iconUrl: 'images/icon-48.png',
+                title: 'Trebis: перенос карточек',
+                message: TrebisAutomation.getMessage(results)
+            });
+        }
+    } finally {
+        await TrebisAutomation.schedule();
+    }
+});
@@ -0,0 +1,27 @@
+/**
+ * Ядро trebis без зависимостей от страницы trello и DOM.
+ * Может использоваться в node, в service worker и в тестах. Перед использованием окружение настраивается через configure:
+ * хранилище данных, логгер и fetch. Без настройки данные хранятся в памяти, а сообщения выводятся в console
+ */
+import {TREBIS as utils} from "./utils";
+
+export {Trebis} from "./Trebis";
+export {TrebisCalendar} from "./TrebisCalendar";
+export {TrebisDateParser} from "./TrebisDateParser";
+export {TrebisExport} from "./TrebisExport";
+export {TrebisMemoryStorage} from "./TrebisMemoryStorage";
+export {TrebisMetrics} from "./TrebisMetrics";
+export {TrebisRules} from "./TrebisRules";
+export {TrebisSettings} from "./TrebisSettings";
+export {TrebisStatisticCache} from "./TrebisStatisticCache";
+export {Request} from "./api/Request";
+export {RequestScheduler} from "./api/RequestScheduler";
+export {ServerApi} from "./api/ServerApi";
+export {StatisticStore} from "./api/StatisticStore";
+export {StatisticUploader} from "./api/StatisticUploader";
+export {TrelloApi} from "./api/TrelloApi";
+export {TrelloJournal} from "./api/TrelloJournal";
+export * from "./interfaces";
+
+export {utils};
+export const configure = utils.configure;
@@ -1,5 +1,6 @@
 import {TREBIS as App} from "./Application";
 import {TrelloUI} from "./TrelloUI";
+import {TREBIS as utils} from "./utils";
 
 /**
  * Отслеживание изменений у элемента
@@ -33,6 +34,7 @@ function trebisInitForOrgBoards(app: App.Application): MutationObserver {
 
 window.onload = () => {
     if (document.location.host === 'trello.com') {
+        utils.configure({storage: localStorage, logger: TrelloUI.getLogger()});
         const app = new App.Application();
         let userObserver: MutationObserver = null;
         let orgObserver: MutationObserver = null;
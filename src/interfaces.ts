@@ -1,3 +1,33 @@
+/**
+ * Тип ошибки запроса:
+ * url - не указан адрес,
+ * network - ошибка сети,
+ * http - сервер вернул ошибку,
+ * timeout - превышено время ожидания ответа,
+ * parse - не удалось разобрать ответ.
+ */
+export type TRequestErrorType = 'url' | 'network' | 'http' | 'timeout' | 'parse';
+
+export interface IRequestError {
+    type: TRequestErrorType;
+    /**
+     * Описание ошибки.
+     */
+    message: string;
+    /**
+     * Количество выполненных попыток.
+     */
+    attempts: number;
+    /**
+     * Http статус ответа.
+     */
+    status?: number;
+    /**
+     * Время ожидания перед повторной отправкой, указанное сервером. В мсек.
+     */
+    retryAfter?: number;
+}
+
 export interface IRequestSend {
     /**
      * Статус ответа. True, если запрос успешно выполнился, иначе false.
@@ -10,7 +40,44 @@ export interface IRequestSend {
     /**
      * Ошибка при отправке запроса.
      */
-    err?: string
+    err?: string;
+    /**
+     * Подробная информация об ошибке.
+     */
+    error?: IRequestError;
+}
+
+/**
+ * Описание запроса. Не изменяется после создания.
+ */
+export interface IRequestParams {
+    /**
+     * Адрес, на который отправляется запрос.
+     */
+    readonly url: string;
+    /**
+     * Метод запроса. Если не указан, то отправляется POST при наличии post параметров, иначе GET.
+     */
+    readonly method?: string;
+    readonly get?: Readonly<IGetParams>;
+    readonly post?: any;
+    readonly header?: Readonly<Record<string, string>>;
+    /**
+     * Максимальное время ожидания ответа. В мсек.
+     */
+    readonly maxTimeQuery?: number;
+    readonly isConvertJson?: boolean;
+}
+
+export interface IRequestSchedulerOptions<T, R> {
+    /**
+     * Количество одновременно обрабатываемых элементов.
+     */
+    concurrency?: number;
+    /**
+     * Вызывается после обработки каждого элемента.
+     */
+    onProgress?: (done: number, total: number, item: T, result: R) => void;
 }
 
 export interface IGetParams {
@@ -20,14 +87,16 @@ export interface IGetParams {
 export interface IServerApiData {
     orgName?: string;
     orgId?: string;
+    /**
+     * Идентификатор доски. Статистика за день определяется доской по идентификатору,
+     * поэтому после переименования доски дни не дублируются
+     */
+    boardId?: string;
+    /**
+     * Название доски
+     */
     name?: string;
-    data?: {
-        [year: string]: {
-            [month: string]: {
-                [day: string]: ITrebisStatistic
-            }
-        }
-    }
+    data?: ITrebisStatisticDays;
 }
 
 export interface IServerApiRequestData {
@@ -51,6 +120,92 @@ export interface IServerApiRequest {
     msg?: string;
 }
 
+/**
+ * Метод протокола сервера статистики
+ */
+export type TServerApiMethod = 'save' | 'get';
+
+/**
+ * Тело запроса на сохранение статистики доски
+ */
+export interface IServerApiSaveBody extends IServerApiData {
+    method: 'save';
+}
+
+/**
+ * Тело запроса на получение статистики рабочего пространства за год
+ */
+export interface IServerApiGetBody {
+    method: 'get';
+    year: string;
+    orgId: string;
+}
+
+export type TServerApiBody = IServerApiSaveBody | IServerApiGetBody;
+
+/**
+ * Хранилище статистики рабочего пространства
+ */
+export interface IStatisticStore {
+    /**
+     * Сохранение статистики доски по дням
+     * @param data
+     */
+    save(data: IServerApiData): Promise<IRequestSend>;
+
+    /**
+     * Получение статистики всех досок рабочего пространства за год по месяцам
+     * @param year
+     * @param orgId
+     */
+    get(year: string, orgId: string): Promise<IServerApiRequest>;
+}
+
+export type TStatisticStoreType = 'rest' | 'indexeddb' | 'trello';
+
+export interface IStatisticStoreSettings {
+    type: TStatisticStoreType;
+    /**
+     * Адрес REST сервера. Используется для type = rest
+     */
+    url?: string;
+    /**
+     * Доска, на которой хранится статистика. Используется для type = trello
+     */
+    boardId?: string;
+}
+
+export interface IStatisticStoreRecord {
+    orgId: string;
+    /**
+     * Идентификатор доски. У статистики, отправленной без идентификатора, не указан
+     */
+    boardId?: string;
+    /**
+     * Название доски
+     */
+    name: string;
+    year: number;
+    month: number;
+    day: number;
+    statistic: ITrebisStatistic;
+}
+
+/**
+ * Отправка статистики, которую не удалось сохранить в хранилище
+ */
+export interface IStatisticUploadQueueItem {
+    /**
+     * Хранилище, в которое отправлялась статистика
+     */
+    storeKey: string;
+    /**
+     * Дата последней попытки отправки. В мсек.
+     */
+    date: number;
+    data: IServerApiData;
+}
+
 export interface ITrelloMemberships {
     deactivated: boolean;
     id: string;
@@ -72,6 +227,12 @@ export interface ITrelloMembers {
     organizations: ITrelloOrganizations[];
 }
 
+export interface ITrelloMember {
+    id: string;
+    username: string;
+    fullName?: string;
+}
+
 export interface ITrelloOrg {
     id: string;
     name: string;
@@ -102,6 +263,7 @@ export interface ITrelloListData {
 export interface ITrelloLabel {
     color: string;
     id: string;
+    name?: string;
 }
 
 export interface ITrelloCardData {
@@ -113,25 +275,649 @@ export interface ITrelloCardData {
     [key: string]: any;
 }
 
+export interface ITrelloJournalInverse {
+    /**
+     * Название метода TrelloApi, отменяющего операцию.
+     */
+    method: string;
+    /**
+     * Параметры метода.
+     */
+    args: any[];
+}
+
+export interface ITrelloJournalOperation {
+    /**
+     * Выполненный метод TrelloApi.
+     */
+    method: string;
+    inverse: ITrelloJournalInverse;
+    date: number;
+}
+
+export interface ITrelloJournalRun {
+    id: string;
+    /**
+     * Название действия пользователя.
+     */
+    name: string;
+    boardId: string;
+    date: number;
+    operations: ITrelloJournalOperation[];
+}
+
+export interface ITrebisBackupCheckItem {
+    name: string;
+    checked: boolean;
+}
+
+export interface ITrebisBackupChecklist {
+    name: string;
+    items: ITrebisBackupCheckItem[];
+}
+
+export interface ITrebisBackupCard {
+    id: string;
+    name: string;
+    desc: string;
+    url?: string;
+    due?: string;
+    labels: ITrelloLabel[];
+    checklists: ITrebisBackupChecklist[];
+}
+
+export interface ITrebisBackupList {
+    id: string;
+    name: string;
+    cards: ITrebisBackupCard[];
+}
+
+export interface ITrebisBackup {
+    /**
+     * Версия формата резервной копии.
+     */
+    version: number;
+    /**
+     * Дата создания резервной копии.
+     */
+    date: number;
+    boardId: string;
+    boardName: string;
+    lists: ITrebisBackupList[];
+}
+
+export interface ITrebisRestoreResult {
+    /**
+     * Количество восстановленных списков.
+     */
+    lists: number;
+    /**
+     * Количество восстановленных карточек.
+     */
+    cards: number;
+    /**
+     * Количество элементов, которые не удалось восстановить.
+     */
+    errors: number;
+}
+
 export interface ITrebisListId {
     id: string;
     index: number;
 }
 
+export interface ITrebisCarryOverOperation {
+    /**
+     * Идентификатор операции.
+     */
+    id: string;
+    /**
+     * Тип операции: обновление описания карточки, копирование в новый список или пропуск карточки.
+     */
+    type: 'update' | 'copy' | 'skip';
+    /**
+     * Карточка из списка предыдущего рабочего дня.
+     */
+    card: ITrelloCardData;
+    /**
+     * Причина, по которой выполняется операция.
+     */
+    reason: string;
+    /**
+     * Данные для обновления или создания карточки.
+     */
+    data?: ITrelloData;
+    /**
+     * Идентификаторы меток для новой карточки.
+     */
+    labels?: string[];
+    /**
+     * Идентификаторы меток для исходной карточки.
+     */
+    sourceLabels?: string[];
+}
+
+export interface ITrebisCarryOverPlan {
+    /**
+     * Название списка, в который переносятся карточки.
+     */
+    listName: string;
+    /**
+     * Список, в который переносятся карточки. Если null, то список будет создан.
+     */
+    thisListId: ITrebisListId;
+    /**
+     * Список предыдущего рабочего дня.
+     */
+    lastListId: ITrebisListId;
+    lastListName: string;
+    operations: ITrebisCarryOverOperation[];
+}
+
+export interface ITrebisRetentionPolicy {
+    /**
+     * Тип политики: хранить списки за последние N дней, либо все списки начиная с определенной даты.
+     */
+    type: 'days' | 'date';
+    days?: number;
+    /**
+     * Дата в формате d.m.Y, начиная с которой списки хранятся.
+     */
+    date?: string;
+    /**
+     * Что делать со списками, название которых не удалось распознать как дату.
+     */
+    unparsed: 'keep' | 'archive';
+}
+
+/**
+ * Формат даты в названии списка:
+ * dd.mm - 21.03,
+ * dd.mm.yy - 21.03.24 или 21.03.2024,
+ * iso - 2024-03-21,
+ * weekday - день недели перед датой: Пн 21.03,
+ * week - номер недели: Неделя 12
+ */
+export type TDateParserPattern = 'dd.mm' | 'dd.mm.yy' | 'iso' | 'weekday' | 'week';
+
+/**
+ * Причина, по которой не удалось определить дату:
+ * empty - пустое название,
+ * no-date - название не похоже на дату,
+ * disabled - формат даты отключен для доски,
+ * invalid - несуществующая дата
+ */
+export type TDateParserError = 'empty' | 'no-date' | 'disabled' | 'invalid';
+
+export interface ITrebisParsedDateBase {
+    /**
+     * Формат, по которому определена дата
+     */
+    pattern: TDateParserPattern;
+    /**
+     * Указан ли год. Если год не указан, то используется текущий год
+     */
+    hasYear: boolean;
+    /**
+     * Предупреждение, например день недели не совпадает с датой
+     */
+    warning?: string;
+}
+
+export interface ITrebisParsedDate extends ITrebisParsedDateBase {
+    type: 'date';
+    date: Date;
+}
+
+export interface ITrebisParsedRange extends ITrebisParsedDateBase {
+    type: 'range';
+    start: Date;
+    end: Date;
+}
+
+export interface ITrebisUnparsedDate {
+    type: 'unparsed';
+    reason: TDateParserError;
+}
+
+export type TTrebisParsedDate = ITrebisParsedDate | ITrebisParsedRange | ITrebisUnparsedDate;
+
+/**
+ * Результат проверки названий списков доски
+ */
+export interface ITrebisDateCheckResult {
+    /**
+     * Списки, название которых не удалось распознать как дату
+     */
+    unparsed: { list: ITrelloListData, reason: TDateParserError }[];
+    /**
+     * Списки, дата которых больше даты предыдущего списка. Списки должны идти от новых к старым
+     */
+    outOfOrder: { list: ITrelloListData, date: Date, previous: ITrelloListData }[];
+    /**
+     * Списки с одинаковой датой
+     */
+    duplicates: { list: ITrelloListData, date: Date }[];
+    warnings: { list: ITrelloListData, warning: string }[];
+}
+
+/**
+ * Списки, пропущенные или получившие другую дату при определении дат списков доски
+ */
+export interface ITrebisListDatesReport {
+    /**
+     * Списки, название которых не удалось распознать как дату. В статистике не учитываются
+     */
+    skipped: { list: ITrelloListData, reason: TDateParserError }[];
+    /**
+     * Списки без года в названии, год которых определен по соседним спискам и отличается от текущего
+     */
+    redated: { list: ITrelloListData, date: Date }[];
+    /**
+     * Списки, дата которых больше даты предыдущего списка. Учитываются по дате, а не по положению на доске
+     */
+    outOfOrder: { list: ITrelloListData, date: Date, previous: ITrelloListData }[];
+}
+
+/**
+ * Даты списков доски с учетом смены года
+ */
+export interface ITrebisResolvedLists extends ITrebisListDatesReport {
+    /**
+     * Списки с распознанной датой, отсортированные по дате от новых к старым
+     */
+    lists: { list: ITrelloListData, date: Date }[];
+    /**
+     * Списки с той же датой, что и у предыдущего списка
+     */
+    duplicates: { list: ITrelloListData, date: Date }[];
+}
+
+export interface ITrebisRetentionResult {
+    /**
+     * Списки, которые будут скрыты.
+     */
+    archive: ITrelloListData[];
+    /**
+     * Списки, которые останутся.
+     */
+    keep: ITrelloListData[];
+    /**
+     * Списки, название которых не удалось распознать как дату.
+     */
+    unparsed: ITrelloListData[];
+}
+
+export interface ITrebisRemoveResult {
+    /**
+     * Количество скрытых списков.
+     */
+    count: number;
+    /**
+     * Списки, которые не удалось скрыть.
+     */
+    errors: ITrelloListData[];
+}
+
 export interface ITrebisLabel {
     [color: string]: string;
 }
 
+export interface ITrebisRules {
+    /**
+     * Метки, при наличии которых задача считается выполненной и не переносится.
+     */
+    done: string[];
+    /**
+     * Метки, которые переносятся в новую карточку. Значение '*' означает любую метку.
+     */
+    carry: string[];
+    /**
+     * Метки, которые не переносятся в новую карточку.
+     */
+    strip: string[];
+    /**
+     * Метки, добавляемые в новую карточку.
+     */
+    addToCopy: string[];
+    /**
+     * Метки, добавляемые в исходную карточку.
+     */
+    addToSource: string[];
+}
+
+export interface ITrebisRulesPreset {
+    title: string;
+    rules: ITrebisRules;
+}
+
+export interface ITrebisRulesResult {
+    /**
+     * Задача выполнена и не должна переноситься.
+     */
+    isDone: boolean;
+    /**
+     * Идентификаторы меток для новой карточки.
+     */
+    labels: string[];
+    /**
+     * Идентификаторы меток для исходной карточки.
+     */
+    sourceLabels: string[];
+}
+
 export interface ILocalStorage {
     key: string;
     token: string;
 }
 
+/**
+ * Права, запрашиваемые при авторизации в trello
+ */
+export type TTrebisAuthScope = 'read' | 'read,write' | 'read,write,account';
+/**
+ * Срок действия токена trello
+ */
+export type TTrebisAuthExpiration = '1hour' | '1day' | '30days' | 'never';
+
+/**
+ * Авторизация в trello через api. Хранится в chrome.storage
+ */
+export interface ITrebisAuth extends ILocalStorage {
+    scope: TTrebisAuthScope;
+    expiration: TTrebisAuthExpiration;
+    /**
+     * Дата получения токена. В мсек.
+     */
+    date: number;
+}
+
+/**
+ * Логгер, в который trebis выводит предупреждения и ошибки
+ */
+export interface ITrebisLogger {
+    warn(message: string): void;
+
+    error(message: string): void;
+}
+
+/**
+ * Доска, карточки которой переносятся автоматически
+ */
+export interface ITrebisAutomationBoard {
+    id: string;
+    name: string;
+}
+
+/**
+ * Настройки автоматического переноса карточек. Хранятся в chrome.storage
+ */
+export interface ITrebisAutomationSettings {
+    enabled: boolean;
+    /**
+     * Время запуска в формате HH:MM
+     */
+    time: string;
+    boards: ITrebisAutomationBoard[];
+    /**
+     * Даты успешного переноса по доскам в формате d.m.Y. На доске перенос выполняется не чаще одного раза в день
+     */
+    lastRuns: Record<string, string>;
+    /**
+     * Количество запусков за день, в которых перенос хотя бы на одной доске не удался
+     */
+    attempts: { date: string, count: number };
+}
+
+/**
+ * Результат автоматического переноса карточек доски
+ */
+export interface ITrebisAutomationResult {
+    board: ITrebisAutomationBoard;
+    /**
+     * Количество перенесенных карточек
+     */
+    count: number;
+    err?: string;
+}
+
+/**
+ * Хранилище, в котором trebis сохраняет данные. Совпадает с интерфейсом localStorage
+ */
+export interface ITrebisStorage {
+    readonly length: number;
+
+    getItem(key: string): string | null;
+
+    setItem(key: string, value: string): void;
+
+    removeItem(key: string): void;
+
+    key(index: number): string | null;
+}
+
+/**
+ * Закэшированное значение, полученное из trello
+ */
+export interface ITrebisCachedValue<T> {
+    value: T;
+    /**
+     * Дата сохранения. В мсек.
+     */
+    date: number;
+}
+
+export interface ITrebisOrgSettings {
+    /**
+     * Рабочее пространство, выбранное пользователем
+     */
+    name: string;
+    /**
+     * Рабочее пространство, найденное автоматически
+     */
+    detectedName: string;
+    id: string;
+    /**
+     * Администраторы рабочего пространства, которым доступно удаление старых списков
+     */
+    admins: string[];
+}
+
+/**
+ * Все настройки trebis
+ */
+export interface ITrebisSettingsData {
+    /**
+     * Версия схемы настроек
+     */
+    version: number;
+    /**
+     * Ключ и токен, сохраненные до перехода на chrome.storage. Переносятся в TrebisAuth при первом получении авторизации
+     */
+    auth: ILocalStorage;
+    org: ITrebisOrgSettings;
+    /**
+     * Идентификаторы досок по shortLink
+     */
+    boardIds: Record<string, ITrebisCachedValue<string>>;
+    /**
+     * Метки досок по идентификатору доски
+     */
+    labels: Record<string, ITrebisCachedValue<ITrebisLabel>>;
+    /**
+     * Правила переноса карточек по идентификатору доски
+     */
+    rules: Record<string, ITrebisRules>;
+    /**
+     * Политика хранения списков по идентификатору доски
+     */
+    retention: Record<string, ITrebisRetentionPolicy>;
+    calendar: ITrebisCalendar;
+    /**
+     * Количество одновременно обрабатываемых досок в общей статистике
+     */
+    concurrency: number;
+    statisticStore: IStatisticStoreSettings;
+    /**
+     * Форматы дат в названиях списков по идентификатору доски
+     */
+    datePatterns: Record<string, TDateParserPattern[]>;
+    /**
+     * Через сколько дней переноса подряд задача считается хронической, по идентификатору доски
+     */
+    chronicDays: Record<string, number>;
+}
+
+export type TTrebisCacheSection = 'boardIds' | 'labels';
+
+/**
+ * Файл с выгруженными настройками
+ */
+export interface ITrebisSettingsExport {
+    app: 'trebis';
+    version: number;
+    date: string;
+    settings: Partial<ITrebisSettingsData>;
+}
+
 export interface ITrebisStatistic {
     red: number;
     yellow: number;
     blue: number;
     green: number;
+    /**
+     * Статистика по участникам рабочего пространства. Ключ - имя пользователя (username)
+     */
+    members?: ITrebisMemberStatistic;
+    /**
+     * Статистика по дням: год, месяц (начиная с 0) и день
+     */
+    days?: ITrebisStatisticDays;
+    /**
+     * Списки, которые были пропущены или получили другую дату при подсчете статистики
+     */
+    report?: ITrebisListDatesReport;
+}
+
+export interface ITrebisListStatisticCache {
+    /**
+     * Идентификатор списка
+     */
+    id: string;
+    boardId: string;
+    /**
+     * Подпись списка: количество карточек и дата последней активности карточек
+     */
+    signature: string;
+    statistic: ITrebisStatistic;
+}
+
+export interface ITrebisStatisticDays {
+    [year: string]: {
+        [month: string]: {
+            [day: string]: ITrebisStatistic
+        }
+    };
+}
+
+export interface ITrebisChronicCard {
+    name: string;
+    /**
+     * Сколько дней подряд задача переносилась
+     */
+    days: number;
+    /**
+     * Дата первого списка с задачей (d.m.Y)
+     */
+    startDate: string;
+    /**
+     * Дата последнего списка с задачей (d.m.Y)
+     */
+    lastDate: string;
+    url?: string;
+    members: string[];
+}
+
+export interface ITrebisMetrics {
+    total: number;
+    /**
+     * Процент выполненных задач. Если задач нет, то null
+     */
+    completionRate: number;
+    /**
+     * Процент перенесенных задач. Если задач нет, то null
+     */
+    carryOverRate: number;
+    workingDays: number;
+    /**
+     * Среднее количество задач за рабочий день. Если рабочих дней нет, то null
+     */
+    averagePerDay: number;
+    /**
+     * Задача считается хронической, если переносится больше указанного количества дней подряд
+     */
+    chronicDays: number;
+    chronicCards: ITrebisChronicCard[];
+}
+
+export interface ITrebisDelta {
+    old: number;
+    current: number;
+    /**
+     * Разница между текущим и предыдущим значением
+     */
+    diff: number;
+    /**
+     * Изменение в процентах относительно предыдущего значения. Если предыдущее значение равно 0, то null
+     */
+    percent: number;
+}
+
+export interface ITrebisStatisticDelta {
+    red: ITrebisDelta;
+    yellow: ITrebisDelta;
+    blue: ITrebisDelta;
+    green: ITrebisDelta;
+}
+
+export interface ITrebisMetricsResult {
+    statistic: ITrebisStatistic;
+    metrics: ITrebisMetrics;
+}
+
+export type TExportCell = string | number | null;
+
+export interface ITrebisExportSheet {
+    /**
+     * Название листа. Обычно название доски
+     */
+    name: string;
+    rows: TExportCell[][];
+}
+
+export interface ITrebisStatisticDay {
+    date: Date;
+    statistic: ITrebisStatistic;
+}
+
+export interface ITrebisMemberStatistic {
+    [username: string]: ITrebisStatistic;
+}
+
+export interface ITrebisStatisticOptions {
+    /**
+     * Сохранять ли статистику на сервере.
+     */
+    isSaveOnServer?: boolean;
+    boardName?: string;
+    /**
+     * Заранее полученные списки доски вместе с карточками. Если не указаны, то списки запрашиваются.
+     */
+    lists?: ITrelloListData[];
+    /**
+     * Имена участников по их идентификатору. Если не указаны, то запрашиваются участники рабочего пространства.
+     */
+    memberNames?: Record<string, string>;
 }
 
 export interface ITrebisStatisticText {
@@ -157,4 +943,33 @@ export interface ITrelloUiCallback {
 export interface IDateRange {
     start: string;
     end: string;
+    /**
+     * Название периода для отображения пользователю
+     */
+    title?: string;
+    /**
+     * Количество рабочих дней в периоде по календарю
+     */
+    workingDays?: number;
+}
+
+export type TPeriodType = 'week' | 'month' | 'quarter';
+
+export interface ITrebisCalendar {
+    /**
+     * Рабочие дни недели. 0 - воскресенье, 6 - суббота.
+     */
+    weekDays: number[];
+    /**
+     * Праздничные дни в формате Y-m-d.
+     */
+    holidays: string[];
+    /**
+     * Перенесенные рабочие дни, выпадающие на выходные, в формате Y-m-d.
+     */
+    workDays: string[];
+    /**
+     * Личные выходные и отпуск в формате Y-m-d.
+     */
+    daysOff: string[];
 }
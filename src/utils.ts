@@ -1,4 +1,7 @@
-import {IDateRange} from "./interfaces";
+import {IDateRange, ITrebisLogger, ITrebisStorage, TPeriodType} from "./interfaces";
+import {TrebisCalendar} from "./TrebisCalendar";
+import {TrebisDateParser} from "./TrebisDateParser";
+import {TrebisMemoryStorage} from "./TrebisMemoryStorage";
 
 export namespace TREBIS {
     /**
@@ -15,56 +18,14 @@ export namespace TREBIS {
     }
 
     /**
-     * Пытаемся распарсить строку с датой. При успехе вернется объект Date иначе null
+     * Пытаемся распарсить строку с датой. При успехе вернется объект Date иначе null.
+     * Используются все форматы дат TrebisDateParser, для диапазона возвращается последняя дата
      * @param date
      */
     export function getDate(date: string): Date {
-        // Кто-то заполнял календарь вида 21,03 или 21/03 поэтому на всякий случай обрабатываем это
-        date = date.replace(/[,/]/g, '.');
-        const isDefaultSeparator = date.includes('.');
-        /**
-         * Есть проблема, когда указан диапазон дат.
-         * В таком случае возвращаем только последнюю определенную дату
-         */
-        if (isDefaultSeparator && date.includes('-')) {
-            const parseDates = date.split('-');
-            let res: Date = null;
-            parseDates.forEach((parseDate) => {
-                const date = getDate(parseDate);
-                if (date) {
-                    res = date;
-                }
-            });
-            return res;
-        }
-
-        const dateValues: any[] = date.split(isDefaultSeparator ? '.' : '-');
-
-        if (dateValues[0] === undefined && dateValues[1] === undefined) {
-            return null;
-        }
-
-        for (let i = 0; i < dateValues.length; i++) {
-            dateValues[i] = Number(dateValues[i]);
-            if (isNaN(dateValues[i])) {
-                return null;
-            }
-        }
-        // Если год не указан, то предполагаем что используется текущий год
-        if (dateValues.length < 3) {
-            dateValues.push((new Date()).getFullYear());
-        }
-        // значение месяца уменьшаем на 1, иначе дата определится не корректно
-        dateValues[1]--;
-
-        if (dateValues[2] < 2000) {
-            dateValues[2] += 2000;
-        }
-
-        return new Date(dateValues[2], dateValues[1], dateValues[0]);
+        return TrebisDateParser.getDate(new TrebisDateParser().parse(date));
     }
 
-
     /**
      * Получение корректной даты в формате d.m.Y
      * @param time
@@ -120,50 +81,186 @@ export namespace TREBIS {
     }
 
     /**
-     * Получение даты начала и конца текущего месяца. В качестве конца месяца выбирается текущая дата.
+     * Получение периода. Границы периода не сужаются до рабочих дней, чтобы в статистику попадали и списки за выходные,
+     * а количество рабочих дней берется из календаря, если он передан
+     * @param start
+     * @param end
+     * @param calendar
      */
-    export function getThisMonth(): IDateRange {
-        const startDate = date().split('.');
-        startDate[0] = '01';
-
-        return {
-            start: startDate.join('.'),
-            end: date()
+    function getRange(start: Date, end: Date, calendar: TrebisCalendar = null): IDateRange {
+        const res: IDateRange = {
+            start: date(start.getTime()),
+            end: date(end.getTime())
+        };
+        if (calendar) {
+            res.workingDays = calendar.getWorkingDaysCount(start, end);
         }
+        return res;
+    }
+
+    /**
+     * Получение даты начала и конца текущего месяца. В качестве конца месяца выбирается текущая дата.
+     * Если передан календарь, то указывается количество рабочих дней в периоде.
+     * @param calendar
+     */
+    export function getThisMonth(calendar: TrebisCalendar = null): IDateRange {
+        const now = new Date();
+        return getRange(new Date(now.getFullYear(), now.getMonth(), 1), now, calendar);
     }
 
     /**
      * Получение даты начала и конца предыдущего месяца.
+     * Если передан календарь, то указывается количество рабочих дней в периоде.
+     * @param calendar
      */
-    export function getOldMonth(): IDateRange {
-        const oldMonth: Date = new Date();
-        const startDate = date(oldMonth.setMonth(oldMonth.getMonth() - 1)).split('.');
-        startDate[0] = '01';
-        const dateEnd = new Date(oldMonth.getFullYear(), oldMonth.getMonth() + 1, 0);
+    export function getOldMonth(calendar: TrebisCalendar = null): IDateRange {
+        const now = new Date();
+        return getRange(new Date(now.getFullYear(), now.getMonth() - 1, 1),
+            new Date(now.getFullYear(), now.getMonth(), 0), calendar);
+    }
 
-        return {
-            start: startDate.join('.'),
-            end: date(dateEnd.setMilliseconds(0))
+    /**
+     * Получение нескольких идущих подряд периодов (недель, месяцев или кварталов), заканчивая текущим.
+     * Текущий период заканчивается сегодняшним днем. Периоды возвращаются от более старого к текущему.
+     * Если передан календарь, то для каждого периода указывается количество рабочих дней.
+     * @param type
+     * @param count
+     * @param calendar
+     */
+    export function getPeriods(type: TPeriodType, count: number, calendar: TrebisCalendar = null): IDateRange[] {
+        const now = new Date();
+        const res: IDateRange[] = [];
+        for (let i = count - 1; i >= 0; i--) {
+            let start: Date;
+            let end: Date;
+            let title: string;
+            if (type === 'week') {
+                // Неделя начинается с понедельника
+                const monday = now.getDate() - (now.getDay() + 6) % 7;
+                start = new Date(now.getFullYear(), now.getMonth(), monday - i * 7);
+                end = new Date(now.getFullYear(), now.getMonth(), monday - i * 7 + 6);
+                title = `Неделя с ${date(start.getTime(), true)}`;
+            } else {
+                const months = type === 'quarter' ? 3 : 1;
+                const firstMonth = now.getMonth() - now.getMonth() % months - i * months;
+                start = new Date(now.getFullYear(), firstMonth, 1);
+                end = new Date(now.getFullYear(), firstMonth + months, 0);
+                title = type === 'quarter' ?
+                    `${Math.floor(start.getMonth() / 3) + 1} квартал ${start.getFullYear()}` :
+                    date(start.getTime(), true).slice(3);
+            }
+            if (end > now) {
+                end = now;
+            }
+            res.push({...getRange(start, end, calendar), title});
         }
+        return res;
+    }
+
+    /**
+     * Экранирование html символов в тексте
+     * @param text
+     */
+    export function escapeHtml(text: string): string {
+        return `${text ?? ''}`.replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    /**
+     * Преобразование запроса к IndexedDB в промис
+     * @param request
+     */
+    export function idbRequest<T>(request: IDBRequest): Promise<T> {
+        return new Promise((resolve, reject) => {
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
     }
 
     export function getDayInSec(day: number): number {
         return 3600 * 24 * 1000 * day;
     }
 
-    export function downloadAsFile(fileName: string, data: string, options: BlobPropertyBag = {type: 'application/json'}) {
-        const a = document.createElement("a");
-        const file = new Blob([data], options);
-        a.href = URL.createObjectURL(file);
-        a.download = fileName;
-        a.click();
+    /**
+     * Префикс ключей, под которыми trebis сохраняет данные
+     */
+    export const STORAGE_PREFIX = 'trebis_';
+
+    /**
+     * Функция отправки запросов с интерфейсом fetch.
+     * Объявлена здесь, а не в interfaces, т.к. interfaces собираются и для сервера, где нет типов fetch
+     */
+    export type TTrebisFetch = (input: string, init?: RequestInit) => Promise<Response>;
+
+    /**
+     * Зависимости trebis от окружения. Позволяют использовать trebis на странице trello, в service worker и в node
+     */
+    export interface ITrebisEnvironment {
+        storage: ITrebisStorage;
+        logger: ITrebisLogger;
+        fetch: TTrebisFetch;
+    }
+
+    let storage: ITrebisStorage = null;
+    let logger: ITrebisLogger = console;
+    let fetchFn: TTrebisFetch = null;
+
+    /**
+     * Настройка окружения, в котором работает trebis. Не указанные зависимости остаются без изменений
+     * @param env
+     */
+    export function configure(env: Partial<ITrebisEnvironment>): void {
+        if (env.storage) {
+            setStorage(env.storage);
+        }
+        if (env.logger) {
+            logger = env.logger;
+        }
+        if (env.fetch) {
+            fetchFn = env.fetch;
+        }
+    }
+
+    /**
+     * Установка хранилища для сохранения данных. Если хранилище не установлено, то данные хранятся в памяти
+     * @param newStorage
+     */
+    export function setStorage(newStorage: ITrebisStorage): void {
+        storage = newStorage;
+    }
+
+    export function getStorage(): ITrebisStorage {
+        if (!storage) {
+            storage = new TrebisMemoryStorage();
+        }
+        return storage;
+    }
+
+    /**
+     * Получение логгера. По умолчанию используется console
+     */
+    export function getLogger(): ITrebisLogger {
+        return logger;
+    }
+
+    /**
+     * Получение функции для отправки запросов. По умолчанию используется глобальный fetch
+     */
+    export function getFetch(): TTrebisFetch {
+        return fetchFn || ((input, init) => fetch(input, init));
     }
 
     export function getLocalStorage(key): string {
-        return localStorage[`trebis_${key}`] || null;
+        return getStorage().getItem(`${STORAGE_PREFIX}${key}`) || null;
     }
 
     export function setLocalStorage(key, data: string) {
-        localStorage.setItem(`trebis_${key}`, data);
+        getStorage().setItem(`${STORAGE_PREFIX}${key}`, data);
+    }
+
+    export function removeLocalStorage(key): void {
+        getStorage().removeItem(`${STORAGE_PREFIX}${key}`);
     }
 }
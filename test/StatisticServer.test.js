@@ -0,0 +1,101 @@
+/**
+ * Сквозная проверка статистики: ServerApi расширения отправляет статистику на сервер из каталога server, запущенный на localhost
+ */
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const {ServerApi} = require('../core/dist/core');
+const {FileStatisticStore} = require('../server/dist/server/src/FileStatisticStore');
+const {StatisticServer} = require('../server/dist/server/src/StatisticServer');
+
+test('сохранение и получение статистики через ServerApi', async (t) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trebis-'));
+    const server = await new StatisticServer(new FileStatisticStore(dir)).listen(0, '127.0.0.1');
+    t.after(() => {
+        server.close();
+        fs.rmSync(dir, {recursive: true, force: true});
+    });
+    const url = `http://127.0.0.1:${server.address().port}`;
+    const api = new ServerApi(url);
+    const data = {
+        2024: {
+            0: {
+                15: {red: 1, yellow: 2, blue: 0, green: 5},
+                16: {red: 0, yellow: 1, blue: 1, green: 3}
+            },
+            1: {1: {red: 2, yellow: 0, blue: 0, green: 1}}
+        }
+    };
+
+    assert.strictEqual((await api.save({orgId: 'org1', orgName: 'Org', name: 'Доска', data})).status, true);
+    // Повторная отправка дня заменяет статистику, а не суммирует ее
+    assert.strictEqual((await api.save({
+        orgId: 'org1', orgName: 'Org', name: 'Доска', data: {2024: {0: {16: {red: 0, yellow: 0, blue: 2, green: 4}}}}
+    })).status, true);
+
+    const res = await api.get('2024', 'org1');
+    assert.deepStrictEqual(res, {
+        status: true,
+        res: {
+            data: {
+                'Доска': {
+                    0: {red: 1, yellow: 2, blue: 2, green: 9},
+                    1: {red: 2, yellow: 0, blue: 0, green: 1}
+                }
+            },
+            total: {'Доска': {red: 3, yellow: 2, blue: 2, green: 10}}
+        }
+    });
+    assert.deepStrictEqual(await api.get('2023', 'org1'), {status: true, res: {data: {}, total: {}}});
+    assert.ok(fs.existsSync(path.join(dir, 'org1', '2024.json')));
+});
+
+test('сервер не принимает рабочее пространство и год, которые выходят за каталог данных', async (t) => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'trebis-'));
+    const dir = path.join(root, 'data');
+    const server = await new StatisticServer(new FileStatisticStore(dir)).listen(0, '127.0.0.1');
+    t.after(() => {
+        server.close();
+        fs.rmSync(root, {recursive: true, force: true});
+    });
+    const api = new ServerApi(`http://127.0.0.1:${server.address().port}`);
+    const statistic = {red: 1, yellow: 0, blue: 0, green: 0};
+
+    for (const orgId of ['..', '.', '../org', 'org/..', 'org\\..']) {
+        const res = await api.save({orgId, orgName: 'Org', name: 'Доска', data: {2024: {0: {1: statistic}}}});
+        assert.strictEqual(res.status, false, orgId);
+        assert.strictEqual(res.error.status, 400, orgId);
+    }
+    for (const year of ['..', '1e3', '20245']) {
+        const res = await api.save({orgId: 'org1', orgName: 'Org', name: 'Доска', data: {[year]: {0: {1: statistic}}}});
+        assert.strictEqual(res.status, false, year);
+    }
+    assert.strictEqual((await api.get('2024', '..')).status, false);
+    assert.deepStrictEqual(fs.readdirSync(root), []);
+});
+
+test('статистика доски определяется идентификатором доски, а не названием', async (t) => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'trebis-'));
+    const server = await new StatisticServer(new FileStatisticStore(dir)).listen(0, '127.0.0.1');
+    t.after(() => {
+        server.close();
+        fs.rmSync(dir, {recursive: true, force: true});
+    });
+    const api = new ServerApi(`http://127.0.0.1:${server.address().port}`);
+    const statistic = {red: 1, yellow: 0, blue: 0, green: 2};
+
+    // Статистика, отправленная без идентификатора доски, переносится к доске при первой отправке с идентификатором
+    assert.strictEqual((await api.save({orgId: 'org1', name: 'Доска', data: {2024: {0: {1: statistic, 2: statistic}}}})).status, true);
+    assert.strictEqual((await api.save({orgId: 'org1', boardId: 'b1', name: 'Доска', data: {2024: {0: {2: statistic}}}})).status, true);
+    // После переименования дни не дублируются, доска выводится под новым названием
+    assert.strictEqual((await api.save({
+        orgId: 'org1', boardId: 'b1', name: 'Новая доска', data: {2024: {0: {2: statistic, 3: statistic}}}
+    })).status, true);
+
+    assert.deepStrictEqual((await api.get('2024', 'org1')).res, {
+        data: {'Новая доска': {0: {red: 3, yellow: 0, blue: 0, green: 6}}},
+        total: {'Новая доска': {red: 3, yellow: 0, blue: 0, green: 6}}
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Проверка параллельных вызовов TrelloApi: каждый запрос должен уходить со своими адресом, методом, телом и заголовками
+ */
+const test = require('node:test');
+const assert = require('node:assert');
+const {configure, Request, TrelloApi} = require('../core/dist/core');
+
+/**
+ * Fake fetch, который отвечает в обратном порядке: чем раньше отправлен запрос, тем позже придет ответ
+ */
+function createFakeFetch() {
+    const calls = [];
+    const fetch = (url, init = {}) => {
+        const call = {
+            url,
+            method: init.method || 'GET',
+            body: init.body ? JSON.parse(init.body) : null,
+            headers: {...(init.headers || {})}
+        };
+        calls.push(call);
+        const delay = 50 - calls.length * 5;
+        return new Promise((resolve) => setTimeout(() => resolve({
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            headers: {get: () => null},
+            json: async () => ({id: `${call.method} ${url}`}),
+            text: async () => ''
+        }), Math.max(delay, 0)));
+    };
+    return {calls, fetch};
+}
+
+function createApi() {
+    const api = new TrelloApi();
+    api.isSendForApi = true;
+    api.key = 'key';
+    api.token = 'token';
+    return api;
+}
+
+test('параллельные вызовы TrelloApi не влияют друг на друга', async () => {
+    const {calls, fetch} = createFakeFetch();
+    configure({fetch});
+    const api = createApi();
+    const results = await Promise.all([
+        api.deleteList('list1'),
+        api.addList({idBoard: 'board1', name: '19.10'}),
+        api.addLabels('card1', 'label1'),
+        api.deleteLabels('card2', 'label2'),
+        api.getCards('list2'),
+        api.restoreList('list3'),
+        api.addCard({idList: 'list4', name: 'Задача'})
+    ]);
+
+    assert.strictEqual(calls.length, 7);
+    const json = {'Content-Type': 'application/json'};
+    const auth = {key: 'key', token: 'token'};
+    const find = (method, url) => calls.find(call => call.method === method && call.url === url);
+
+    assert.deepStrictEqual(find('PUT', 'https://api.trello.com/1/lists/list1/'),
+        {url: 'https://api.trello.com/1/lists/list1/', method: 'PUT', body: {...auth, closed: true},
+            headers: {...json, Accept: 'application/json'}});
+    assert.deepStrictEqual(find('PUT', 'https://api.trello.com/1/lists/list3/'),
+        {url: 'https://api.trello.com/1/lists/list3/', method: 'PUT', body: {...auth, closed: false},
+            headers: {...json, Accept: 'application/json'}});
+    assert.deepStrictEqual(find('POST', 'https://api.trello.com/1/lists'),
+        {url: 'https://api.trello.com/1/lists', method: 'POST', body: {...auth, pos: 'top', name: '19.10', idBoard: 'board1'},
+            headers: json});
+    assert.deepStrictEqual(find('POST', 'https://api.trello.com/1/cards/card1/idLabels'),
+        {url: 'https://api.trello.com/1/cards/card1/idLabels', method: 'POST', body: {...auth, value: 'label1'}, headers: json});
+    const deleteLabelUrl = 'https://api.trello.com/1/cards/card2/idLabels/label2?key=key&token=token';
+    assert.deepStrictEqual(find('DELETE', deleteLabelUrl),
+        {url: deleteLabelUrl, method: 'DELETE', body: null, headers: json});
+    assert.deepStrictEqual(find('POST', 'https://api.trello.com/1/cards'),
+        {url: 'https://api.trello.com/1/cards', method: 'POST', body: {...auth, idList: 'list4', name: 'Задача'}, headers: json});
+    const getCards = calls.find(call => call.url.startsWith('https://api.trello.com/1/lists/list2/cards?'));
+    assert.strictEqual(getCards.method, 'GET');
+    assert.strictEqual(getCards.body, null);
+
+    // Ответы пришли в обратном порядке, но каждый вызов получил свой ответ
+    assert.strictEqual(results[0].data.id, 'PUT https://api.trello.com/1/lists/list1/');
+    assert.strictEqual(results[1].data.id, 'POST https://api.trello.com/1/lists');
+    assert.strictEqual(results[3].data.id, `DELETE ${deleteLabelUrl}`);
+    assert.deepStrictEqual(results[4], {id: 'GET ' + getCards.url});
+    assert.deepStrictEqual({...Request.HEADER_AP_JSON}, {'Content-Type': 'application/json'});
+});
+
+test('updateCard не изменяет общие заголовки Request', async () => {
+    const {calls, fetch} = createFakeFetch();
+    configure({fetch});
+    const api = createApi();
+    await Promise.all([
+        api.updateCard('card1', {name: 'Первая'}),
+        api.addLabels('card2', 'label2'),
+        api.updateCard('card3', {desc: 'Описание'})
+    ]);
+
+    const updates = calls.filter(call => call.method === 'PUT');
+    assert.deepStrictEqual(updates.map(call => [call.url, call.body]), [
+        ['https://api.trello.com/1/cards/card1', {key: 'key', token: 'token', name: 'Первая'}],
+        ['https://api.trello.com/1/cards/card3', {key: 'key', token: 'token', desc: 'Описание'}]
+    ]);
+    const addLabel = calls.find(call => call.method === 'POST');
+    assert.deepStrictEqual(addLabel.headers, {'Content-Type': 'application/json'});
+    assert.ok(Object.isFrozen(Request.HEADER_AP_JSON));
+});
+
+test('maxTimeQuery ограничивает и чтение тела ответа', async () => {
+    let attempts = 0;
+    configure({
+        fetch: (url, init = {}) => {
+            attempts++;
+            return Promise.resolve({
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                headers: {get: () => null},
+                // Тело не приходит, пока запрос не будет прерван
+                json: () => new Promise((resolve, reject) => {
+                    init.signal.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), {name: 'AbortError'})));
+                }),
+                text: async () => ''
+            });
+        }
+    });
+    const request = Request.create({url: 'https://example.com', maxTimeQuery: 20});
+    request.maxRetry = 0;
+    const res = await request.send();
+
+    assert.strictEqual(res.status, false);
+    assert.strictEqual(res.error.type, 'timeout');
+    assert.strictEqual(attempts, 1);
+});
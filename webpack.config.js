@@ -9,11 +9,13 @@ const paths = {
 const config = {
     context: paths.src,
     entry: {
-        app: './index'
+        index: './index',
+        auth: './auth',
+        background: './background'
     },
     output: {
         path: paths.dist,
-        filename: 'index.js'
+        filename: '[name].js'
     },
     resolve: {
         extensions: ['.ts']